@@ -8,7 +8,8 @@
 import { BooleanArray } from "../../collections/boolean-array/BooleanArray";
 import type { ComponentInstance } from "../component/component-instance";
 import { NotRegisteredError } from "../errors";
-import type { Entity, QueryInstance } from "../types";
+import type { ArchetypeSnapshot, Entity, QueryInstance, StorageMode, TableRow } from "../types";
+import { growTypedArray } from "../utils";
 import { Archetype } from "./archetype";
 
 /** ArchetypeManager handles creation and allocation of Archetypes */
@@ -28,38 +29,78 @@ export class ArchetypeManager {
 	/** The number of components registered in the world */
 	#componentCount: number = 0;
 
+	/** The maximum number of entities */
+	#capacity: number;
+
+	/** The row of each Entity in its Archetype's table, if component data is stored in tables */
+	#rows: Uint32Array | undefined;
+
+	/** Scratch space for collecting entities which moved between archetypes */
+	#moved: BooleanArray;
+
+	/** The QueryInstances which have been matched against the Archetypes */
+	readonly #queries: Set<QueryInstance> = new Set();
+
+	/** The QueryInstances each Archetype matches */
+	readonly #archetypeQueries: Map<Archetype, QueryInstance[]> = new Map();
+
+	/** Archetypes which Entities have entered or exited since the last refresh */
+	readonly #dirty: Set<Archetype> = new Set();
+
+	/** Archetypes which have become empty since the last refresh */
+	readonly #emptied: Set<Archetype> = new Set();
+
+	/** Copies of the table rows Entities have exited since the last refresh */
+	#exited: Map<Entity, TableRow> = new Map();
+
+	/** Copies of the table rows Entities exited before the refresh whose subscribers are being notified */
+	#notifying: Map<Entity, TableRow> | null = null;
+
+	/** Whether to copy the table rows Entities exit, e.g. while query subscribers may read them */
+	keepExited: () => boolean = () => false;
+
 	/**
 	 * Create a new ArchetypeManager
 	 * @param capacity - The maximum number of entities this manager can handle
 	 * @param componentCount - The number of components registered in the world
+	 * @param storage - Where component data is stored [default = "partitioned"]
 	 */
-	constructor(capacity: number, componentCount: number) {
+	constructor(capacity: number, componentCount: number, storage: StorageMode = "partitioned") {
 		this.registry = new Map();
 		this.entityArchetypes = new Array(capacity);
 		this.queryArchetypes = new Map();
 		this.#componentCount = componentCount;
+		this.#capacity = capacity;
+		this.#rows = storage === "table" ? new Uint32Array(capacity) : undefined;
+		this.#moved = new BooleanArray(capacity);
 
 		// Create root archetype with properly sized bitfield for components
 		const rootBitfield = new BooleanArray(componentCount);
 		this.root = new Archetype(capacity, [], rootBitfield);
-		this.registry.set(this.root.id, this.root);
+		this.#register(this.root);
 
-		// Created here to avoid dependency on providing `capacity`
 		this.init = () => {
+			const capacity = this.#capacity;
 			this.entityArchetypes.length = capacity;
 			for (let i = 0; i < capacity; i++) {
-				this.entityArchetypes[i] = this.set(this.root, i);
+				// entities already placed (e.g., restored from a snapshot) keep their archetype
+				if (this.entityArchetypes[i] === undefined) {
+					this.entityArchetypes[i] = this.set(this.root, i);
+				}
 			}
 			return this;
 		};
 
 		// Created here to avoid dependency on providing `capacity` and `componentCount`
 		this.update = (() => {
-			const bitfield = new BooleanArray(this.#componentCount);
+			let bitfield = new BooleanArray(this.#componentCount);
 
 			return (entity: Entity, components: ComponentInstance<any>[]): Archetype => {
 				const oldArchetype = this.entityArchetypes[entity];
 
+				// components may have been registered since
+				if (bitfield.size !== this.#componentCount) bitfield = new BooleanArray(this.#componentCount);
+
 				// Reset and update bitfield
 				bitfield.clear();
 				for (let i = 0; i < components.length; i++) {
@@ -72,20 +113,76 @@ export class ArchetypeManager {
 
 				let archetype = this.registry.get(archetypeId);
 				if (!archetype) {
-					archetype = new Archetype(capacity, components, bitfield.clone());
-					this.registry.set(archetypeId, archetype);
+					archetype = this.#register(new Archetype(this.#capacity, components, bitfield.clone(), this.#rows));
 				}
 
 				// Move entity to new archetype
-				oldArchetype?.removeEntity(entity);
-				archetype.addEntity(entity);
-				this.entityArchetypes[entity] = archetype;
+				this.#move(entity, oldArchetype, archetype);
 
 				return archetype;
 			};
 		})();
 	}
 
+	/**
+	 * Move an Entity to the Archetype with additional components
+	 * @param entity - The Entity
+	 * @param components - The ComponentInstances to add
+	 * @returns The Entity's new Archetype
+	 */
+	addComponents = (entity: Entity, components: ComponentInstance<any>[]): Archetype => {
+		const from = this.entityArchetypes[entity];
+		let archetype = from ?? this.root;
+		for (const component of components) {
+			archetype = this.#traverse(archetype, "add", component);
+		}
+		if (archetype !== from) this.#move(entity, from, archetype);
+		return archetype;
+	};
+
+	/**
+	 * Move an Entity to the Archetype without some components
+	 * @param entity - The Entity
+	 * @param components - The ComponentInstances to remove
+	 * @returns The Entity's new Archetype
+	 */
+	removeComponents = (entity: Entity, components: ComponentInstance<any>[]): Archetype => {
+		const from = this.entityArchetypes[entity];
+		let archetype = from ?? this.root;
+		for (const component of components) {
+			archetype = this.#traverse(archetype, "remove", component);
+		}
+		if (archetype !== from) this.#move(entity, from, archetype);
+		return archetype;
+	};
+
+	/**
+	 * Find the Archetype reached by adding or removing a component, caching the transition in both directions
+	 * @param from - The Archetype to start from
+	 * @param operation - Whether the component is added or removed
+	 * @param component - The ComponentInstance
+	 * @returns The neighbouring Archetype, or `from` if it already has (or lacks) the component
+	 */
+	#traverse(from: Archetype, operation: "add" | "remove", component: ComponentInstance<any>): Archetype {
+		const { id } = component;
+		if (from.bitfield.get(id) === (operation === "add")) return from;
+		const cached = from.getEdge(operation, id);
+		if (cached !== undefined) return cached;
+
+		const bitfield = from.bitfield.clone().set(id, operation === "add");
+		let to = this.registry.get(bitfield.buffer.toString());
+		if (to === undefined) {
+			const components =
+				operation === "add"
+					? [...from.components, component].sort((a, b) => a.id - b.id)
+					: from.components.filter((instance) => instance !== component);
+			to = this.#register(new Archetype(this.#capacity, components, bitfield, this.#rows));
+		}
+		from.setEdge(operation, id, to);
+		to.setEdge(operation === "add" ? "remove" : "add", id, from);
+		return to;
+	}
+
 	/**
 	 * Get the components associated with an entity
 	 * @param entity - The entity to get the components for
@@ -126,6 +223,10 @@ export class ArchetypeManager {
 		this.registry.clear();
 		this.entityArchetypes.length = 0;
 		this.queryArchetypes.clear();
+		this.#queries.clear();
+		this.#archetypeQueries.clear();
+		this.#dirty.clear();
+		this.#emptied.clear();
 		return this;
 	};
 
@@ -138,6 +239,71 @@ export class ArchetypeManager {
 		return this.entityArchetypes[entity];
 	}
 
+	/**
+	 * Get the copy of an Entity's exited table row, if one was kept
+	 * @param entity - The Entity
+	 * @returns The row's values by component id and property name, or `undefined`
+	 */
+	getExitedRow = (entity: Entity): TableRow | undefined => {
+		return this.#notifying?.get(entity) ?? this.#exited.get(entity);
+	};
+
+	/**
+	 * Keep the copies of the table rows Entities exited since the last refresh readable while subscribers are notified
+	 *
+	 * Copies made from now on are kept for the next refresh.
+	 * @returns The copies which were readable before, to pass to {@link ArchetypeManager.endNotify}
+	 */
+	beginNotify = (): Map<Entity, TableRow> | null => {
+		const previous = this.#notifying;
+		this.#notifying = this.#exited;
+		this.#exited = new Map();
+		return previous;
+	};
+
+	/**
+	 * Drop the copies made readable by {@link ArchetypeManager.beginNotify}
+	 * @param previous - The copies which were readable before
+	 */
+	endNotify = (previous: Map<Entity, TableRow> | null): void => {
+		this.#notifying = previous;
+	};
+
+	/**
+	 * Get the Entities which have entered or exited any Archetype since the last refresh
+	 * @returns The Entities, in ascending order
+	 */
+	getMoved = (): Entity[] => {
+		this.#moved.clear();
+		for (const archetype of this.#dirty) {
+			for (const entity of archetype.getEntered()) this.#moved.set(entity, true);
+			for (const entity of archetype.getExited()) this.#moved.set(entity, true);
+		}
+		return [...this.#moved.truthyIndices()] as Entity[];
+	};
+
+	/**
+	 * Grow every Archetype's entity tracking after the world has grown
+	 *
+	 * The new Entities are placed in the root archetype.
+	 * @param capacity - The world's new capacity
+	 * @returns this
+	 */
+	grow = (capacity: number): this => {
+		const previous = this.#capacity;
+		this.#capacity = capacity;
+		if (this.#rows !== undefined) this.#rows = growTypedArray(this.#rows, capacity);
+		this.#moved = BooleanArray.fromUint32Array(capacity, this.#moved.buffer);
+		for (const archetype of this.registry.values()) {
+			archetype.grow(capacity, this.#rows);
+		}
+		this.entityArchetypes.length = capacity;
+		for (let i = previous; i < capacity; i++) {
+			this.entityArchetypes[i] = this.set(this.root, i);
+		}
+		return this;
+	};
+
 	/**
 	 * Called by `world.init()`
 	 *
@@ -175,39 +341,96 @@ export class ArchetypeManager {
 
 	/**
 	 * Run routine maintenance on the ArchetypeManager
+	 *
+	 * Matches new queries against the Archetypes, removes Archetypes which became empty from their queries,
+	 * and clears the entered/exited Entities of Archetypes which changed since the last refresh.
+	 * @param queries - Every registered QueryInstance
 	 * @returns this
 	 */
 	refresh = (queries: MapIterator<QueryInstance>): this => {
-		// Clear existing query archetype mappings
-		this.queryArchetypes.clear();
-
-		// Convert queries iterator to array to avoid exhaustion
-		const queryArray = [...queries];
-
-		// Initialize query archetype sets
-		for (const query of queryArray) {
-			this.queryArchetypes.set(query, new Set());
-			query.archetypes.clear(); // Clear the QueryInstance's archetypes set
+		for (const query of queries) {
+			if (!this.#queries.has(query)) this.#addQuery(query);
 		}
-
-		// For each archetype
-		for (const archetype of this.registry.values()) {
-			// Check against each query
-			for (const query of queryArray) {
-				if (archetype.isCandidate(query)) {
-					const archetypeSet = this.queryArchetypes.get(query)!;
-					// Only add if it has entities TODO: is this right?
-					if (archetype.getPopulationCount() > 0) {
-						archetypeSet.add(archetype);
-						query.archetypes.add(archetype); // Update the QueryInstance's archetypes set
-					}
-				}
+		// kept until now, so the entities which exited an emptied archetype can still be queried
+		for (const archetype of this.#emptied) {
+			if (!archetype.isEmpty()) continue;
+			for (const query of this.#archetypeQueries.get(archetype)!) {
+				query.archetypes.delete(archetype);
 			}
+		}
+		this.#emptied.clear();
+		for (const archetype of this.#dirty) {
 			archetype.refresh();
 		}
+		this.#dirty.clear();
 		return this;
 	};
 
+	/**
+	 * Match a new QueryInstance against every Archetype, once
+	 * @param query - The QueryInstance
+	 */
+	#addQuery(query: QueryInstance): void {
+		this.#queries.add(query);
+		query.archetypes.clear();
+		this.queryArchetypes.set(query, query.archetypes);
+		for (const archetype of this.registry.values()) {
+			if (!archetype.isCandidate(query)) continue;
+			this.#archetypeQueries.get(archetype)!.push(query);
+			// only populated archetypes are iterated
+			if (!archetype.isEmpty()) query.archetypes.add(archetype);
+		}
+	}
+
+	/**
+	 * Register a new Archetype, matching it against every QueryInstance once
+	 * @param archetype - The Archetype
+	 * @returns The Archetype
+	 */
+	#register(archetype: Archetype): Archetype {
+		this.registry.set(archetype.id, archetype);
+		const matches: QueryInstance[] = [];
+		for (const query of this.#queries) {
+			if (archetype.isCandidate(query)) matches.push(query);
+		}
+		this.#archetypeQueries.set(archetype, matches);
+		return archetype;
+	}
+
+	/**
+	 * Move an Entity between Archetypes, updating the queries of Archetypes which become populated
+	 *
+	 * If component data is stored in tables, the data of the components both Archetypes have moves with the Entity.
+	 * @param entity - The Entity
+	 * @param from - The Entity's current Archetype, if any
+	 * @param to - The Entity's new Archetype
+	 */
+	#move(entity: Entity, from: Archetype | undefined, to: Archetype): void {
+		// the first copy since the last refresh has the data the Entity exited its queries with
+		if (from?.table && !this.#exited.has(entity) && this.keepExited()) {
+			this.#exited.set(entity, from.table.copyRow(entity));
+		}
+		if (from?.table && to.table) {
+			from.table.moveTo(entity, to.table);
+		} else {
+			from?.table?.delete(entity);
+			to.table?.add(entity);
+		}
+		if (from !== undefined) {
+			from.removeEntity(entity);
+			this.#dirty.add(from);
+			if (from.isEmpty()) this.#emptied.add(from);
+		}
+		to.addEntity(entity);
+		this.entityArchetypes[entity] = to;
+		this.#dirty.add(to);
+		if (to.getPopulationCount() === 1) {
+			for (const query of this.#archetypeQueries.get(to)!) {
+				query.archetypes.add(to);
+			}
+		}
+	}
+
 	/**
 	 * Reset an Entity to the root archetype
 	 * @param entity The Entity
@@ -218,6 +441,41 @@ export class ArchetypeManager {
 		return this;
 	};
 
+	/**
+	 * Restore archetype membership from a snapshot
+	 *
+	 * Entities not listed in the snapshot are placed in the root archetype.
+	 * @param snapshots - The archetype snapshots, matching {@link ArchetypeManager.snapshot} format
+	 * @param instances - The world's component instances, indexed by id
+	 * @returns this
+	 */
+	restore = (snapshots: ArchetypeSnapshot[], instances: ComponentInstance<any>[]): this => {
+		this.init();
+		for (const { components, entities } of snapshots) {
+			const archetypeComponents = components.map((id) => instances[id]!);
+			for (const entity of entities) {
+				this.update(entity, archetypeComponents);
+			}
+		}
+		return this;
+	};
+
+	/**
+	 * Take a serializable snapshot of archetype membership
+	 * @returns The components and entities of every non-root, non-empty archetype
+	 */
+	snapshot = (): ArchetypeSnapshot[] => {
+		const result: ArchetypeSnapshot[] = [];
+		for (const archetype of this.registry.values()) {
+			if (archetype === this.root || archetype.isEmpty()) continue;
+			result.push({
+				components: archetype.components.map((instance) => instance.id),
+				entities: [...archetype.getEntities()],
+			});
+		}
+		return result;
+	};
+
 	/**
 	 * Set the Archetype associated with an Entity
 	 * @param archetype The Archetype
@@ -236,9 +494,7 @@ export class ArchetypeManager {
 		const currentArchetype = this.entityArchetypes[entity];
 		if (currentArchetype === archetype) return archetype;
 
-		currentArchetype?.removeEntity(entity);
-		this.entityArchetypes[entity] = archetype;
-		archetype.addEntity(entity);
+		this.#move(entity, currentArchetype, archetype);
 		return archetype;
 	};
 
@@ -264,4 +520,22 @@ export class ArchetypeManager {
 	 * @returns The Archetype associated with the Entity
 	 */
 	update: (entity: Entity, components: ComponentInstance<any>[]) => Archetype;
+
+	/**
+	 * Widen every Archetype's bitfield to fit newly registered components
+	 *
+	 * Archetypes whose id changes (i.e., when the bitfields need another chunk) are registered under their new id.
+	 * @param componentCount - The number of components registered in the world
+	 * @returns this
+	 */
+	widen = (componentCount: number): this => {
+		if (componentCount <= this.#componentCount) return this;
+		this.#componentCount = componentCount;
+		const archetypes = [...this.registry.values()];
+		this.registry.clear();
+		for (const archetype of archetypes) {
+			this.registry.set(archetype.widen(componentCount).id, archetype);
+		}
+		return this;
+	};
 }
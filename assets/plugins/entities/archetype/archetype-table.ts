@@ -0,0 +1,286 @@
+/**
+ * @module      ArchetypeTable
+ * @description An ArchetypeTable stores the component data of an Archetype's Entities in packed columns.
+ * @copyright   2024 the Miski authors. All rights reserved.
+ * @license     MIT
+ */
+
+import type { ComponentInstance } from "../component/component-instance";
+import type { ChunkColumns, Entity, QueryInstance, TableRow, TypedArray, TypedArrayConstructor } from "../types";
+
+/** The initial number of rows in a table */
+const INITIAL_ROWS = 16;
+
+/**
+ * Create an Entity-indexed view of a component property which is stored in tables
+ *
+ * Reads and writes go to the Entity's row in its Archetype's table, so code written for partitions
+ * (e.g., StorageProxies) keeps working. Entities whose Archetype does not have the component read
+ * the value their exited row had (if a copy was kept), or `undefined`, and writes to them are ignored.
+ * @param Ctr - The property's TypedArray constructor
+ * @param componentId - The id of the component
+ * @param key - The property name
+ * @param getTable - Get the table of an Entity's Archetype
+ * @param getExited - Get the copy of an Entity's exited row, if one was kept
+ * @returns A proxy which can be indexed by Entity like a partition
+ */
+export function tableFacade(
+	Ctr: TypedArrayConstructor,
+	componentId: number,
+	key: string,
+	getTable: (entity: Entity) => ArchetypeTable | null | undefined,
+	getExited: (entity: Entity) => TableRow | undefined
+): TypedArray {
+	/** @returns the Entity of a numeric property key, or `-1` */
+	const toEntity = (property: string | symbol): number => {
+		if (typeof property !== "string") return -1;
+		const entity = Number(property);
+		return Number.isInteger(entity) && entity >= 0 ? entity : -1;
+	};
+
+	return new Proxy(new Ctr(0), {
+		get: (target: TypedArray, property: string | symbol) => {
+			const entity = toEntity(property) as Entity;
+			if (entity === -1) return Reflect.get(target, property, target);
+			return getTable(entity)?.get(componentId, key, entity) ?? getExited(entity)?.get(componentId)?.[key];
+		},
+		set: (_target: TypedArray, property: string | symbol, value: number) => {
+			const entity = toEntity(property) as Entity;
+			if (entity === -1) return false;
+			getTable(entity)?.set(componentId, key, entity, value);
+			return true;
+		},
+	});
+}
+
+/** A packed column and the value new rows start with */
+type Column = {
+	/** The column's values, indexed by row */
+	array: TypedArray;
+	/** The schema's initial value */
+	initial: number;
+};
+
+/**
+ * An ArchetypeTable stores the component data of an Archetype's Entities in packed columns
+ *
+ * Each Entity occupies one row. Rows are appended as Entities enter, and swap-removed as they exit,
+ * so the columns stay packed and the row order changes.
+ */
+export class ArchetypeTable {
+	/** The columns of each component by property name, by component id */
+	#columns: Map<number, Record<string, Column>>;
+
+	/** QueryInstances and their columns in this table */
+	#columnCache: Map<QueryInstance, ChunkColumns>;
+
+	/** The Entity in each row */
+	#entities: Uint32Array;
+
+	/** The Entities in use, or `null` if it must be rebuilt */
+	#dense: Uint32Array | null = null;
+
+	/** The number of rows in use */
+	#length: number = 0;
+
+	/** The maximum number of rows (the world's capacity) */
+	#capacity: number;
+
+	/** The row of each Entity, shared by every table in the world */
+	#rows: Uint32Array;
+
+	/**
+	 * Create a new ArchetypeTable
+	 * @param capacity - The maximum number of entities in the world (world capacity)
+	 * @param components - The components to store (tags are ignored)
+	 * @param rows - The row of each Entity, shared by every table in the world
+	 */
+	constructor(capacity: number, components: ComponentInstance<any>[], rows: Uint32Array) {
+		const size = Math.min(INITIAL_ROWS, capacity);
+		this.#capacity = capacity;
+		this.#rows = rows;
+		this.#entities = new Uint32Array(size);
+		this.#columnCache = new Map();
+		this.#columns = new Map();
+		for (const instance of components) {
+			const { schema } = instance.type;
+			if (schema === null) continue;
+			const columns: Record<string, Column> = {};
+			for (const key in schema) {
+				const property = schema[key];
+				const Ctr: TypedArrayConstructor = Array.isArray(property) ? property[0] : property;
+				const initial = Array.isArray(property) ? property[1] : 0;
+				columns[key] = { array: new Ctr(size), initial };
+			}
+			this.#columns.set(instance.id, columns);
+		}
+	}
+
+	/** The Entities in the table, in row order, which must not be modified */
+	get entities(): Uint32Array {
+		if (this.#dense === null) this.#dense = this.#entities.subarray(0, this.#length);
+		return this.#dense;
+	}
+
+	/** The number of rows in use */
+	get length(): number {
+		return this.#length;
+	}
+
+	/**
+	 * Append a row for an Entity, with each column set to its initial value
+	 * @param entity - The Entity
+	 * @returns The Entity's row
+	 */
+	add(entity: Entity): number {
+		if (this.#length === this.#entities.length) this.#grow();
+		const row = this.#length++;
+		this.#entities[row] = entity;
+		this.#rows[entity] = row;
+		this.#dense = null;
+		for (const columns of this.#columns.values()) {
+			for (const key in columns) {
+				const column = columns[key]!;
+				column.array[row] = column.initial;
+			}
+		}
+		return row;
+	}
+
+	/**
+	 * Swap-remove an Entity's row
+	 * @param entity - The Entity
+	 */
+	delete(entity: Entity): void {
+		const row = this.#rows[entity]!;
+		const last = --this.#length;
+		this.#dense = null;
+		if (row === last) return;
+		const moved = this.#entities[last]!;
+		this.#entities[row] = moved;
+		this.#rows[moved] = row;
+		for (const columns of this.#columns.values()) {
+			for (const key in columns) {
+				const { array } = columns[key]!;
+				array[row] = array[last]!;
+			}
+		}
+	}
+
+	/**
+	 * Move an Entity's row to another table, copying the data of the components both tables store
+	 * @param entity - The Entity
+	 * @param target - The table to move the Entity to
+	 */
+	moveTo(entity: Entity, target: ArchetypeTable): void {
+		const from = this.#rows[entity]!;
+		const to = target.add(entity);
+		for (const [id, columns] of this.#columns) {
+			const targetColumns = target.#columns.get(id);
+			if (targetColumns === undefined) continue;
+			for (const key in columns) {
+				targetColumns[key]!.array[to] = columns[key]!.array[from]!;
+			}
+		}
+		// `target.add` has moved the shared index on, so point it back while the old row is removed
+		this.#rows[entity] = from;
+		this.delete(entity);
+		this.#rows[entity] = to;
+	}
+
+	/**
+	 * Copy the values in an Entity's row
+	 * @param entity - The Entity, which must be in the table
+	 * @returns The values by component id and property name
+	 */
+	copyRow(entity: Entity): TableRow {
+		const row = this.#rows[entity]!;
+		const result: TableRow = new Map();
+		for (const [id, columns] of this.#columns) {
+			const values: Record<string, number> = {};
+			for (const key in columns) {
+				values[key] = columns[key]!.array[row]!;
+			}
+			result.set(id, values);
+		}
+		return result;
+	}
+
+	/**
+	 * Get a value from an Entity's row
+	 * @param componentId - The id of the component
+	 * @param key - The property name
+	 * @param entity - The Entity, which must be in the table
+	 * @returns The value, or `undefined` if the table does not store the component
+	 */
+	get(componentId: number, key: string, entity: Entity): number | undefined {
+		return this.#columns.get(componentId)?.[key]?.array[this.#rows[entity]!];
+	}
+
+	/**
+	 * Set a value in an Entity's row
+	 * @param componentId - The id of the component
+	 * @param key - The property name
+	 * @param entity - The Entity, which must be in the table
+	 * @param value - The value
+	 * @returns `true` if the value was set, `false` if the table does not store the component
+	 */
+	set(componentId: number, key: string, entity: Entity, value: number): boolean {
+		const column = this.#columns.get(componentId)?.[key];
+		if (column === undefined) return false;
+		column.array[this.#rows[entity]!] = value;
+		return true;
+	}
+
+	/**
+	 * Get the columns of a query's components which this table stores
+	 * @param query - The QueryInstance
+	 * @returns The columns by component name, indexed by row
+	 */
+	getColumns(query: QueryInstance): ChunkColumns {
+		let result = this.#columnCache.get(query);
+		if (result === undefined) {
+			result = {};
+			for (const name in query.components) {
+				const columns = this.#columns.get(query.components[name]!.id);
+				if (columns === undefined) continue;
+				const arrays: Record<string, TypedArray> = {};
+				for (const key in columns) {
+					arrays[key] = columns[key]!.array;
+				}
+				result[name] = arrays;
+			}
+			Object.freeze(result);
+			this.#columnCache.set(query, result);
+		}
+		return result;
+	}
+
+	/**
+	 * Raise the maximum number of rows after the world has grown
+	 * @param capacity - The world's new capacity
+	 * @param rows - The row of each Entity, shared by every table in the world
+	 */
+	grow(capacity: number, rows: Uint32Array): void {
+		this.#capacity = capacity;
+		this.#rows = rows;
+	}
+
+	/** Double the number of rows, up to the world's capacity */
+	#grow(): void {
+		const size = Math.min(this.#entities.length * 2, this.#capacity);
+		const entities = new Uint32Array(size);
+		entities.set(this.#entities);
+		this.#entities = entities;
+		for (const columns of this.#columns.values()) {
+			for (const key in columns) {
+				const column = columns[key]!;
+				const array = new (column.array.constructor as TypedArrayConstructor)(size);
+				array.set(column.array);
+				column.array = array;
+			}
+		}
+		// cached columns point at the old arrays
+		this.#columnCache.clear();
+	}
+}
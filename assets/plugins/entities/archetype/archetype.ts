@@ -9,60 +9,102 @@ import { BooleanArray } from "../../collections/boolean-array/BooleanArray";
 import type { ComponentInstance } from "../component/component-instance";
 import { ID_KEY } from "../constants";
 import { isQueryMatch } from "../query/query";
-import type { Entity, QueryInstance } from "../types";
+import type { ChunkColumns, Entity, QueryInstance, TypedArray } from "../types";
+import { ArchetypeTable } from "./archetype-table";
 
 /** An Archetype is a collection of ComponentInstances which define the schema of an Entity. */
 export class Archetype {
 	/** QueryInstances and their candidacy status */
 	#candidateCache: Map<QueryInstance, boolean>;
 
+	/** QueryInstances and the columns of their components in this Archetype */
+	#columnCache: Map<QueryInstance, ChunkColumns>;
+
+	/** The neighbouring Archetypes reached by adding a component, by component id */
+	#addEdges: Map<number, Archetype>;
+
+	/** The neighbouring Archetypes reached by removing a component, by component id */
+	#removeEdges: Map<number, Archetype>;
+
+	/** Dense list of the Entities which inhabit this Archetype, or `null` if it must be rebuilt */
+	#dense: Uint32Array | null = null;
+
 	/** Entities which have entered this archetype since last refresh */
 	#entered: BooleanArray;
 
 	/** Set of Entities which inhabit this Archetype */
 	#entities: BooleanArray;
 
+	/** The number of Entities which inhabit this Archetype */
+	#population: number = 0;
+
 	/** Entities which have exited this archetype since last refresh */
 	#exited: BooleanArray;
 
 	/** The world's entity capacity (used for entity tracking arrays) */
 	#entityCapacity: number;
 
+	/** The row of each Entity, shared by every table in the world */
+	#rows: Uint32Array | undefined;
+
 	/** The Archetype's Component Bitfield */
-	readonly bitfield: BooleanArray;
+	#bitfield: BooleanArray;
+
+	/** The Archetype's unique identifier */
+	#id: string;
 
 	/** The components associated with this archetype */
 	readonly components: ComponentInstance<any>[];
 
-	/** The Archetype's unique identifier */
-	readonly id: string;
+	/** The packed component data of the Archetype's Entities, or `null` if data is stored in partitions */
+	readonly table: ArchetypeTable | null;
 
 	/**
 	 * Creates a new Archetype
 	 * @param capacity - The maximum number of entities in the world (world capacity)
 	 * @param components - The components associated with this Archetype
 	 * @param bitfield - Optional BooleanArray to use as the Archetype's Component Bitfield
+	 * @param rows - The row of each Entity, shared by every table in the world, if component data is stored in tables
 	 * @returns a new Archetype object
 	 */
-	constructor(capacity: number, components: ComponentInstance<any>[], bitfield?: BooleanArray) {
+	constructor(capacity: number, components: ComponentInstance<any>[], bitfield?: BooleanArray, rows?: Uint32Array) {
 		this.#entityCapacity = capacity;
+		this.#rows = rows;
 		bitfield =
 			bitfield ??
 			(components.length > 0
 				? BooleanArray.fromObjects(components.length, ID_KEY, components)
 				: new BooleanArray(capacity));
-		this.bitfield = bitfield;
-		this.id = bitfield.buffer.toString();
+		this.#bitfield = bitfield;
+		this.#id = bitfield.buffer.toString();
 		this.components = components;
+		// archetypes of tags only have no data to store
+		this.table =
+			rows !== undefined && components.some(({ type }) => type.schema !== null)
+				? new ArchetypeTable(capacity, components, rows)
+				: null;
 		this.#candidateCache = new Map();
+		this.#columnCache = new Map();
+		this.#addEdges = new Map();
+		this.#removeEdges = new Map();
 		this.#entered = new BooleanArray(capacity);
 		this.#entities = new BooleanArray(capacity);
 		this.#exited = new BooleanArray(capacity);
 	}
 
+	/** The Archetype's Component Bitfield */
+	get bitfield(): BooleanArray {
+		return this.#bitfield;
+	}
+
 	/** The maximum id number of the components this Archetype can represent */
 	get capacity(): number {
-		return this.bitfield.size;
+		return this.#bitfield.size;
+	}
+
+	/** The Archetype's unique identifier (which changes if the bitfield is widened) */
+	get id(): string {
+		return this.#id;
 	}
 
 	/** The world's entity capacity */
@@ -79,6 +121,8 @@ export class Archetype {
 		if (this.#entities.get(entity)) return this;
 		this.#entities.set(entity, true);
 		this.#entered.set(entity, true);
+		this.#population++;
+		this.#dense = null;
 		return this;
 	}
 
@@ -87,7 +131,96 @@ export class Archetype {
 	 * @returns A new Archetype
 	 */
 	clone(): Archetype {
-		return new Archetype(this.#entityCapacity, this.components, this.bitfield.clone());
+		return new Archetype(this.#entityCapacity, this.components, this.bitfield.clone(), this.#rows);
+	}
+
+	/**
+	 * Get a cached transition to a neighbouring Archetype
+	 * @param operation - Whether the component is added or removed
+	 * @param componentId - The id of the component
+	 * @returns The neighbouring Archetype, or `undefined` if the transition is not cached
+	 */
+	getEdge(operation: "add" | "remove", componentId: number): Archetype | undefined {
+		return (operation === "add" ? this.#addEdges : this.#removeEdges).get(componentId);
+	}
+
+	/**
+	 * Get every cached transition to a neighbouring Archetype
+	 * @param operation - Whether the component is added or removed
+	 * @returns An iterator of component ids and neighbouring Archetypes
+	 */
+	getEdges(operation: "add" | "remove"): IterableIterator<[number, Archetype]> {
+		return (operation === "add" ? this.#addEdges : this.#removeEdges).entries();
+	}
+
+	/**
+	 * Cache a transition to a neighbouring Archetype
+	 * @param operation - Whether the component is added or removed
+	 * @param componentId - The id of the component
+	 * @param archetype - The neighbouring Archetype
+	 * @returns This Archetype
+	 */
+	setEdge(operation: "add" | "remove", componentId: number, archetype: Archetype): Archetype {
+		(operation === "add" ? this.#addEdges : this.#removeEdges).set(componentId, archetype);
+		return this;
+	}
+
+	/**
+	 * Get the storage partitions of a query's components which this Archetype has
+	 *
+	 * Tags and components the Archetype does not have (e.g., optional components) are omitted.
+	 * @param query - The QueryInstance
+	 * @returns The partitions by component name, indexed by Entity (or by row, if the Archetype has a table)
+	 */
+	getColumns(query: QueryInstance): ChunkColumns {
+		if (this.table !== null) return this.table.getColumns(query);
+		let columns = this.#columnCache.get(query);
+		if (columns === undefined) {
+			columns = {};
+			for (const name in query.components) {
+				const instance = query.components[name]!;
+				if (!this.components.includes(instance) || instance.storage === null) continue;
+				columns[name] = instance.storage.partitions as Record<string, TypedArray>;
+			}
+			Object.freeze(columns);
+			this.#columnCache.set(query, columns);
+		}
+		return columns;
+	}
+
+	/**
+	 * Get a dense list of the Entities which inhabit this Archetype
+	 *
+	 * The list is only rebuilt when Entities enter or exit the Archetype, so it must not be modified.
+	 * @returns The Entities, in ascending order (or in row order, if the Archetype has a table)
+	 */
+	getDenseEntities(): Uint32Array {
+		if (this.table !== null) return this.table.entities;
+		if (this.#dense === null) {
+			const dense = new Uint32Array(this.#population);
+			let i = 0;
+			for (const entity of this.#entities.truthyIndices()) {
+				dense[i++] = entity;
+			}
+			this.#dense = dense;
+		}
+		return this.#dense;
+	}
+
+	/**
+	 * Grow the Archetype's entity tracking after the world has grown
+	 * @param capacity - The world's new capacity
+	 * @param rows - The row of each Entity, shared by every table in the world, if component data is stored in tables
+	 * @returns The Archetype
+	 */
+	grow(capacity: number, rows?: Uint32Array): Archetype {
+		this.#entityCapacity = capacity;
+		this.#rows = rows;
+		this.#entered = BooleanArray.fromUint32Array(capacity, this.#entered.buffer);
+		this.#entities = BooleanArray.fromUint32Array(capacity, this.#entities.buffer);
+		this.#exited = BooleanArray.fromUint32Array(capacity, this.#exited.buffer);
+		if (rows !== undefined) this.table?.grow(capacity, rows);
+		return this;
 	}
 
 	/**
@@ -95,7 +228,7 @@ export class Archetype {
 	 * @returns The number of entities in the Archetype
 	 */
 	getPopulationCount(): number {
-		return this.#entities.getTruthyCount();
+		return this.#population;
 	}
 
 	/**
@@ -149,7 +282,7 @@ export class Archetype {
 	 * @returns `true` if this Archetype is empty
 	 */
 	isEmpty(): boolean {
-		return this.#entities.getTruthyCount() === 0;
+		return this.#population === 0;
 	}
 
 	/**
@@ -172,6 +305,8 @@ export class Archetype {
 		this.#entered.set(entity, false);
 		this.#entities.set(entity, false);
 		this.#exited.set(entity, true);
+		this.#population--;
+		this.#dense = null;
 		return this;
 	}
 
@@ -186,4 +321,16 @@ export class Archetype {
 			entities: [...this.#entities.values()],
 		});
 	}
+
+	/**
+	 * Widen the Archetype's Component Bitfield to fit newly registered components
+	 * @param size - The number of components registered in the world
+	 * @returns The Archetype
+	 */
+	widen(size: number): Archetype {
+		if (size <= this.#bitfield.size) return this;
+		this.#bitfield = BooleanArray.fromUint32Array(size, this.#bitfield.buffer);
+		this.#id = this.#bitfield.buffer.toString();
+		return this;
+	}
 }
@@ -0,0 +1,199 @@
+/**
+ * @module      CommandBuffer
+ * @description A CommandBuffer records structural changes to be applied to a World later.
+ * @copyright   2024 the Miski authors. All rights reserved.
+ * @license     MIT
+ */
+
+import type { Component } from "../component/component";
+import type { Entity, SchemaOrNull } from "../types";
+import type { World } from "../world/World";
+
+/** A single recorded operation */
+type Command =
+	| { op: "create"; entity: Entity }
+	| { op: "destroy"; entity: Entity }
+	| { op: "add"; entity: Entity; component: Component<any> | string; data?: Record<string, number> }
+	| { op: "remove"; entity: Entity; component: Component<any> | string }
+	| { op: "set"; entity: Entity; component: Component<any> | string; data: Record<string, number> };
+
+/**
+ * A CommandBuffer records entity and component operations so they can be applied in one go,
+ * e.g., so that a system can create, destroy or restructure entities while iterating a query.
+ *
+ * Entities created through the buffer are given placeholder ids (negative numbers)
+ * which can be used in later commands and are resolved to real entities on playback.
+ * Resolutions are kept across playbacks until {@link CommandBuffer.forget} is called
+ * (`world.step()` does so at the start of each step), so placeholder ids are not reused in the meantime.
+ *
+ * @example
+ * ```ts
+ * const buffer = new CommandBuffer();
+ * const bullet = buffer.create();
+ * buffer.addToEntity(position, bullet, { x: 0, y: 0 });
+ * buffer.destroy(someEntity);
+ * const created = buffer.playback(world);
+ * const entity = created.get(bullet); // the real entity
+ * ```
+ */
+export class CommandBuffer {
+	/**
+	 * Check if an entity is a placeholder handed out by a CommandBuffer
+	 * @param entity - The entity to check
+	 * @returns `true` if the entity is a placeholder
+	 */
+	static isPlaceholder(entity: Entity): boolean {
+		return Number.isSafeInteger(entity) && entity < 0;
+	}
+
+	/** The recorded commands, in order */
+	#commands: Command[] = [];
+
+	/** The next placeholder id to hand out */
+	#nextPlaceholder: number = -1;
+
+	/** Placeholders resolved since the last call to forget */
+	readonly #resolved: Map<Entity, Entity> = new Map();
+
+	/** @returns the number of recorded commands */
+	get size(): number {
+		return this.#commands.length;
+	}
+
+	/**
+	 * Record the addition of a component to an entity
+	 * @param component - The component to add
+	 * @param entity - The entity (or placeholder) to add the component to
+	 * @param data - Optional data to set for the component
+	 * @returns this
+	 */
+	addToEntity = <T extends SchemaOrNull<T>>(
+		component: Component<T> | string,
+		entity: Entity,
+		data?: { [k in keyof T]: number }
+	): this => {
+		this.#commands.push({ op: "add", entity, component, data: data && { ...data } });
+		return this;
+	};
+
+	/** Discard all recorded commands and resolved placeholders, and reset placeholder ids */
+	clear = (): this => {
+		this.#commands.length = 0;
+		this.#nextPlaceholder = -1;
+		this.#resolved.clear();
+		return this;
+	};
+
+	/**
+	 * Record the creation of an entity
+	 * @returns A placeholder for the entity, usable in later commands in this buffer
+	 */
+	create = (): Entity => {
+		const placeholder = this.#nextPlaceholder--;
+		this.#commands.push({ op: "create", entity: placeholder });
+		return placeholder;
+	};
+
+	/**
+	 * Record the destruction of an entity
+	 * @param entity - The entity (or placeholder) to destroy
+	 * @returns this
+	 */
+	destroy = (entity: Entity): this => {
+		this.#commands.push({ op: "destroy", entity });
+		return this;
+	};
+
+	/**
+	 * Forget the placeholders resolved by previous playbacks
+	 *
+	 * Placeholder ids are reset as well, unless commands are still waiting to be played back.
+	 * @returns this
+	 */
+	forget = (): this => {
+		this.#resolved.clear();
+		if (this.#commands.length === 0) this.#nextPlaceholder = -1;
+		return this;
+	};
+
+	/**
+	 * Apply every recorded command to a World, in the order they were recorded, then clear the buffer.
+	 *
+	 * Commands targeting an entity which is no longer active are skipped,
+	 * as are commands targeting a placeholder whose creation failed because the World was full.
+	 * @param world - The World to apply the commands to
+	 * @returns A map of placeholders to the real entities created for them since the last call to forget
+	 */
+	playback = (world: World): Map<Entity, Entity> => {
+		const resolved = this.#resolved;
+		if (this.#commands.length === 0) return resolved;
+		const resolve = (entity: Entity): Entity | undefined => {
+			const target = CommandBuffer.isPlaceholder(entity) ? resolved.get(entity) : entity;
+			return target !== undefined && world.entities.isActive(target) ? target : undefined;
+		};
+		// swap the commands out so anything recorded during playback is kept for the next playback
+		const commands = this.#commands;
+		this.#commands = [];
+		for (let i = 0; i < commands.length; i++) {
+			const command = commands[i]!;
+			if (command.op === "create") {
+				const entity = world.entities.create();
+				if (entity !== undefined) resolved.set(command.entity, entity);
+				continue;
+			}
+			const entity = resolve(command.entity);
+			if (entity === undefined) continue;
+			switch (command.op) {
+				case "destroy":
+					world.entities.destroy(entity);
+					break;
+				case "add":
+					world.components.addToEntity(command.component, entity, command.data);
+					break;
+				case "remove":
+					world.components.removeFromEntity(command.component, entity);
+					break;
+				case "set":
+					world.components.setEntityData(command.component, entity, command.data);
+					break;
+			}
+		}
+		return resolved;
+	};
+
+	/**
+	 * Record the removal of a component from an entity
+	 * @param component - The component to remove
+	 * @param entity - The entity (or placeholder) to remove the component from
+	 * @returns this
+	 */
+	removeFromEntity = <T extends SchemaOrNull<T>>(component: Component<T> | string, entity: Entity): this => {
+		this.#commands.push({ op: "remove", entity, component });
+		return this;
+	};
+
+	/**
+	 * Get the real entity created for a placeholder by a playback since the last call to forget
+	 * @param placeholder - The placeholder returned by {@link CommandBuffer.create}
+	 * @returns The real entity, or `undefined` if the placeholder was not resolved
+	 */
+	resolve = (placeholder: Entity): Entity | undefined => {
+		return this.#resolved.get(placeholder);
+	};
+
+	/**
+	 * Record setting the data of a component on an entity
+	 * @param component - The component to set the data for
+	 * @param entity - The entity (or placeholder) to set the data for
+	 * @param data - The data to set
+	 * @returns this
+	 */
+	setEntityData = <T extends SchemaOrNull<T>>(
+		component: Component<T> | string,
+		entity: Entity,
+		data: Record<keyof T, number>
+	): this => {
+		this.#commands.push({ op: "set", entity, component, data: { ...data } as Record<string, number> });
+		return this;
+	};
+}
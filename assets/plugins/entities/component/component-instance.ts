@@ -5,8 +5,11 @@
  * @license     MIT
  */
 
+import type { BooleanArray } from "../../collections/boolean-array/BooleanArray";
+import { $_GROW_KEY } from "../constants";
 import type {
 	ComponentInstanceSpec,
+	Entity,
 	PartitionStorage,
 	Schema,
 	SchemaOrNull,
@@ -28,20 +31,33 @@ export class ComponentInstance<T extends SchemaOrNull<T>> {
 	/** The ComponentInstance's prototype */
 	readonly type: Component<T>;
 
+	/** The entities which own the component */
+	#owners: BooleanArray;
+
 	/**
 	 * Create a new ComponentInstance
 	 * @param spec The ComponentInstance's specification
 	 * @throws {TypeError} If the spec is invalid
 	 */
 	constructor(spec: ComponentInstanceSpec<T>) {
-		const { id, proxy, storage, type } = spec;
+		const { id, owners, proxy, storage, type } = spec;
 		this.id = id;
 		this.proxy = proxy as T extends Schema<T> ? StorageProxyWithProperties<T> : null;
 		this.storage = storage as T extends Schema<T> ? PartitionStorage<T> : null;
 		this.type = type;
+		this.#owners = owners;
 		Object.freeze(this);
 	}
 
+	/**
+	 * Check if an entity has the component (e.g., an optional component in a system)
+	 * @param entity The entity to check
+	 * @returns `true` if the entity has the component, `false` otherwise
+	 */
+	has(entity: Entity): boolean {
+		return this.#owners.get(entity);
+	}
+
 	/** The ComponentInstance's name */
 	get name(): string {
 		return this.type.name;
@@ -50,4 +66,13 @@ export class ComponentInstance<T extends SchemaOrNull<T>> {
 	get [Symbol.toStringTag](): string {
 		return "ComponentInstance";
 	}
+
+	/**
+	 * @internal
+	 * Replace the owner tracking after the World has grown
+	 * @param owners The entities which own the component
+	 */
+	[$_GROW_KEY](owners: BooleanArray): void {
+		this.#owners = owners;
+	}
 }
@@ -8,20 +8,71 @@
 import { BooleanArray } from "../../collections/boolean-array/BooleanArray";
 import { PartitionedBuffer } from "../../collections/partitioned-buffer/PartitionedBuffer";
 import type { ArchetypeManager } from "../archetype/archetype-manager";
-import { $_PARTITION_KEY } from "../constants";
-import { NotRegisteredError } from "../errors";
-import type { Entity, SchemaOrNull, TypedArray } from "../types";
-import { isObject } from "../utils";
+import { tableFacade } from "../archetype/archetype-table";
+import { $_GROW_KEY, $_PARTITION_KEY } from "../constants";
+import { NotRegisteredError, SpecError } from "../errors";
+import type {
+	ComponentEntry,
+	ComponentObserver,
+	ComponentSnapshot,
+	Entity,
+	PartitionStorage,
+	QueryFilter,
+	SchemaOrNull,
+	StorageMode,
+	TypedArray,
+	TypedArrayConstructor,
+} from "../types";
+import { growTypedArray, isObject } from "../utils";
 import type { Component } from "./component";
 import { StorageProxy } from "./storage-proxy";
 import { ComponentInstance } from "./component-instance";
 
+/**
+ * Get the size of a buffer which fits a component's partitions
+ * @param component - The component
+ * @param capacity - The capacity of the component manager
+ * @returns The size in bytes, padded for each partition's alignment and rounded up to a multiple of `capacity`
+ */
+function getBufferSize(component: Component<any>, capacity: number): number {
+	const elements = component.maxEntities ?? capacity;
+	let size = 0;
+	for (const property of Object.values(component.schema ?? {})) {
+		const Ctr: TypedArrayConstructor = Array.isArray(property) ? property[0] : property;
+		size += Math.ceil((Ctr.BYTES_PER_ELEMENT * elements) / 8) * 8;
+	}
+	return Math.ceil(size / capacity) * capacity;
+}
+
 /** A component manager is responsible for managing the components of a world. */
 export class ComponentManager {
-	/** The storage buffer for the component manager */
-	#buffer: PartitionedBuffer;
+	/** The storage buffers for the component manager (components registered later get a buffer of their own) */
+	#buffers: PartitionedBuffer[];
+	/** The capacity of the component manager */
+	#capacity: number;
+	/** Where component data is stored */
+	#storage: StorageMode;
 	/** The changed state for each component */
 	#changed: Map<Component<any>, BooleanArray>;
+	/**
+	 * The tick of each entity's last change, for each component
+	 *
+	 * Ticks are stored as doubles, which hold every integer the tick reaches (up to 2^53) exactly,
+	 * so comparisons never wrap around as they would with 32-bit ticks in long-running worlds.
+	 */
+	#ticks: Map<Component<any>, Float64Array>;
+	/** The tick each entity last gained each component */
+	#addedTicks: Map<Component<any>, Float64Array>;
+	/** The tick each entity last lost each component */
+	#removedTicks: Map<Component<any>, Float64Array>;
+	/** The current change tick, which only grows */
+	#tick: number = 1;
+	/** The tick of the last refresh */
+	#refreshTick: number = 0;
+	/** While a system runs, the tick it last ran at; `null` otherwise */
+	#since: number | null = null;
+	/** The lifecycle observers for each component */
+	#observers: Map<Component<any>, ComponentObserver[]>;
 	/** The owner state for each component */
 	#owners: Map<Component<any>, BooleanArray>;
 	/** The registry of component instances */
@@ -35,39 +86,106 @@ export class ComponentManager {
 	 * Create a new component manager.
 	 * @param capacity - The capacity of the component manager
 	 * @param components - The components to register
+	 * @param storage - Where component data is stored [default = "partitioned"]
 	 */
-	constructor(capacity: number, components: Component<any>[]) {
+	constructor(capacity: number, components: Component<any>[], storage: StorageMode = "partitioned") {
+		this.#capacity = capacity;
+		this.#storage = storage;
 		// create the storage buffer
 		const size = components.reduce((acc, component) => acc + component.size, 0) * capacity;
-		this.#buffer = new PartitionedBuffer(size, capacity);
+		this.#buffers = storage === "partitioned" ? [new PartitionedBuffer(size, capacity)] : [];
 		// create the various registries
 		this.#changed = new Map();
+		this.#observers = new Map();
+		this.#ticks = new Map();
+		this.#addedTicks = new Map();
+		this.#removedTicks = new Map();
 		this.#owners = new Map();
 		this.#registry = new Map();
 		this.#registryByName = {};
 		// register each component
 		for (const component of components) {
-			// instance owner entity tracking
-			const instanceOwners = new BooleanArray(capacity);
-			this.#owners.set(component, instanceOwners);
-			// instance changed entity tracking
-			const instanceChanged = new BooleanArray(capacity);
-			this.#changed.set(component, instanceChanged);
-			// instance storage
-			const storage = this.#buffer.addPartition(component[$_PARTITION_KEY]);
-			const proxy = storage ? new StorageProxy({ storage, changed: instanceChanged, capacity }) : null;
-			// register component instance
-			const instance = new ComponentInstance({ id: this.#registry.size, proxy, storage, type: component });
-			this.#registry.set(component, instance);
-			this.#registryByName[component.name] = instance;
+			this.#register(component, this.#buffers[0] ?? null);
 		}
 	}
 
+	/**
+	 * Create the tracking, storage and instance of a component
+	 * @param component - The component to register
+	 * @param buffer - The buffer to allocate the component's partitions in, or `null` if it needs none
+	 * @returns The component instance
+	 */
+	#register(component: Component<any>, buffer: PartitionedBuffer | null): ComponentInstance<any> {
+		const capacity = this.#capacity;
+		const id = this.#registry.size;
+		// instance owner entity tracking
+		const instanceOwners = new BooleanArray(capacity);
+		this.#owners.set(component, instanceOwners);
+		// instance changed entity tracking
+		const instanceChanged = new BooleanArray(capacity);
+		this.#changed.set(component, instanceChanged);
+		// instance change ticks
+		const ticks = new Float64Array(capacity);
+		this.#ticks.set(component, ticks);
+		this.#addedTicks.set(component, new Float64Array(capacity));
+		this.#removedTicks.set(component, new Float64Array(capacity));
+		// instance lifecycle observers
+		const observers: ComponentObserver[] = [];
+		this.#observers.set(component, observers);
+		// instance storage
+		const storage =
+			this.#storage === "table"
+				? this.#createTableStorage(component, id)
+				: buffer?.addPartition(component[$_PARTITION_KEY]) ?? null;
+		const proxy = storage
+			? new StorageProxy({ storage, changed: instanceChanged, capacity, observers, ticks, tick: () => this.#tick })
+			: null;
+		// register component instance
+		const instance = new ComponentInstance({
+			id,
+			owners: instanceOwners,
+			proxy,
+			storage,
+			type: component,
+		});
+		this.#registry.set(component, instance);
+		this.#registryByName[component.name] = instance;
+		return instance;
+	}
+
+	/**
+	 * Register a component after construction
+	 *
+	 * The component gets the next id, so the ids of existing components do not change.
+	 * Its partitions are allocated in a new buffer, chained on to the existing buffers.
+	 * @param component - The component to register
+	 * @returns The component instance (the existing instance, if the component is already registered)
+	 * @throws {SpecError} If a different component with the same name is already registered
+	 */
+	register = <T extends SchemaOrNull<T>>(component: Component<T>): ComponentInstance<T> => {
+		const existing = this.#registry.get(component);
+		if (existing) return existing;
+		if (this.#registryByName[component.name]) {
+			throw new SpecError(`A component named "${component.name}" is already registered.`);
+		}
+		let buffer: PartitionedBuffer | null = null;
+		if (this.#storage === "partitioned" && component.schema !== null) {
+			buffer = new PartitionedBuffer(getBufferSize(component, this.#capacity), this.#capacity);
+			this.#buffers.push(buffer);
+		}
+		return this.#register(component, buffer);
+	};
+
 	/** @returns the number of components registered */
 	get count(): number {
 		return this.#registry.size;
 	}
 
+	/** @returns the current change tick */
+	get tick(): number {
+		return this.#tick;
+	}
+
 	/** @returns a record of all component instances by name */
 	get registry(): Record<string, ComponentInstance<any>> {
 		return this.#registryByName;
@@ -85,13 +203,59 @@ export class ComponentManager {
 		entity: Entity,
 		data?: { [k in keyof T]: number }
 	): ComponentInstance<any>[] => {
+		this.#addInstanceToEntity(this.#getRegisteredInstance(component), entity, data);
+		// Build component list directly from ownership (don't use archetype-dependent getEntityComponents)
+		return this.#getEntityComponentsDirect(entity);
+	};
+
+	/**
+	 * Add several components to an entity at once
+	 * @param entity - The entity to add the components to
+	 * @param entries - The components to add, each optionally paired with its initial data
+	 * @returns The component instances for this entity
+	 * @throws {NotRegisteredError} If any of the components are not registered (no components are added)
+	 */
+	addManyToEntity = (entity: Entity, entries: ComponentEntry[]): ComponentInstance<any>[] => {
+		// resolve everything first so an unregistered component leaves the entity untouched
+		const instances = entries.map((entry) => this.#getRegisteredInstance(Array.isArray(entry) ? entry[0] : entry));
+		for (let i = 0; i < instances.length; i++) {
+			const entry = entries[i];
+			this.#addInstanceToEntity(instances[i]!, entity, Array.isArray(entry) ? entry[1] : undefined);
+		}
+		return this.#getEntityComponentsDirect(entity);
+	};
+
+	/**
+	 * Get a registered component instance
+	 * @param component - The component to get the instance of
+	 * @returns The component instance
+	 * @throws {NotRegisteredError} If the component is not registered
+	 */
+	#getRegisteredInstance<T extends SchemaOrNull<T>>(component: Component<T> | string): ComponentInstance<T> {
 		const instance = this.getInstance(component);
 		if (!instance) {
 			throw new NotRegisteredError(
 				`Component ${typeof component === "string" ? `"${component}"` : component.name} not registered.`
 			);
 		}
+		return instance;
+	}
+
+	/**
+	 * Set the ownership, changed state and data of a component instance on an entity
+	 * @param instance - The component instance to add
+	 * @param entity - The entity to add the component to
+	 * @param data - Optional data to set for the component
+	 */
+	#addInstanceToEntity<T extends SchemaOrNull<T>>(
+		instance: ComponentInstance<T>,
+		entity: Entity,
+		data?: { [k in keyof T]?: number }
+	): void {
 		const { type } = instance;
+		if (!this.#owners.get(type)?.get(entity)) {
+			this.#addedTicks.get(type)![entity] = this.#tick;
+		}
 
 		// Set ownership
 		const ownerState = this.#owners.get(type)?.set(entity, true);
@@ -104,20 +268,18 @@ export class ComponentManager {
 		if (changedState === undefined) {
 			throw new Error(`Failed to set changed state for component ${type.name} on entity ${entity}.`);
 		}
+		this.#ticks.get(type)![entity] = this.#tick;
 
 		// Set data if provided
 		if (isObject(data) && instance.storage !== null) {
 			const storage = instance.storage?.partitions as Record<keyof T, TypedArray>;
 			for (const key in data) {
 				if (key in storage) {
-					storage[key][entity] = data[key];
+					storage[key][entity] = data[key]!;
 				}
 			}
 		}
-
-		// Build component list directly from ownership (don't use archetype-dependent getEntityComponents)
-		return this.#getEntityComponentsDirect(entity);
-	};
+	}
 
 	/**
 	 * Check if an entity has a component
@@ -158,15 +320,77 @@ export class ComponentManager {
 
 	/**
 	 * Get an iterable of all entities with one or more changed properties for a given component
+	 *
+	 * While a system runs, these are the entities changed since the system last ran;
+	 * otherwise, the entities changed since the last refresh.
 	 * @param component The component to get changed entities for
 	 * @returns An iterable of entities or `undefined` if the component is not registered
 	 */
 	getChanged = <T extends SchemaOrNull<T>>(component: Component<T> | string): IterableIterator<Entity> | undefined => {
 		const instance = this.getInstance(component);
 		if (!instance) return;
+		if (this.#since !== null) {
+			return this.#getChangedSince(instance.type, this.#since);
+		}
 		return this.#changed.get(instance.type)?.truthyIndices() as IterableIterator<Entity> | undefined;
 	};
 
+	/**
+	 * Get the owners of a component which changed after a given tick
+	 * @param type - The component
+	 * @param since - The tick
+	 * @returns An iterable of entities
+	 */
+	*#getChangedSince(type: Component<any>, since: number): IterableIterator<Entity> {
+		const ticks = this.#ticks.get(type)!;
+		for (const entity of this.#owners.get(type)!.truthyIndices()) {
+			if (ticks[entity]! > since) yield entity as Entity;
+		}
+	}
+
+	/**
+	 * Check an entity against a change filter
+	 *
+	 * While a system runs, changes are counted since the system last ran; otherwise, since the last refresh.
+	 * @param filter - The kind of change
+	 * @param component - The component to check
+	 * @param entity - The entity to check
+	 * @returns `true` if the entity changed (while owning the component), gained or lost the component
+	 */
+	isFiltered = (filter: QueryFilter, component: Component<any>, entity: Entity): boolean => {
+		const since = this.#since ?? this.#refreshTick;
+		switch (filter) {
+			case "added":
+				return this.entityHas(component, entity) && (this.#addedTicks.get(component)?.[entity] ?? 0) > since;
+			case "changed":
+				return this.entityHas(component, entity) && (this.#ticks.get(component)?.[entity] ?? 0) > since;
+			case "removed":
+				return (this.#removedTicks.get(component)?.[entity] ?? 0) > since;
+		}
+	};
+
+	/**
+	 * Called before a system runs
+	 *
+	 * Advances the change tick, and scopes `getChanged` to the changes made since the system last ran.
+	 * @param lastRun - The tick the system last ran at (`0` if it has never run)
+	 * @returns The tick the system runs at
+	 */
+	beginSystem = (lastRun: number): number => {
+		this.#since = lastRun;
+		return ++this.#tick;
+	};
+
+	/**
+	 * Called after a system runs
+	 *
+	 * Advances the change tick, so changes made outside of systems are newer than the last system run.
+	 */
+	endSystem = (): void => {
+		this.#since = null;
+		this.#tick++;
+	};
+
 	/**
 	 * Get an iterable of all entities with a given component
 	 * @param component The component to get entities for
@@ -178,6 +402,38 @@ export class ComponentManager {
 		return this.#owners.get(instance.type)?.truthyIndices() as IterableIterator<Entity> | undefined;
 	};
 
+	/**
+	 * Create an Entity-indexed storage for a component whose data is stored in archetype tables
+	 * @param component - The component
+	 * @param id - The component's id
+	 * @returns The storage, or `null` for tags
+	 */
+	#createTableStorage<T extends SchemaOrNull<T>>(component: Component<T>, id: number): PartitionStorage<T> {
+		const { schema } = component;
+		if (schema === null) return null as PartitionStorage<T>;
+		const getTable = (entity: Entity) => this.#archetypeManager?.getEntityArchetype(entity)?.table;
+		const getExited = (entity: Entity) => this.#archetypeManager?.getExitedRow(entity);
+		const partitions: Record<string, TypedArray> = {};
+		for (const key in schema) {
+			const property = schema[key];
+			const Ctr: TypedArrayConstructor = Array.isArray(property) ? property[0] : property;
+			partitions[key] = tableFacade(Ctr, id, key, getTable, getExited);
+		}
+		return {
+			byteLength: 0,
+			byteOffset: 0,
+			partitions,
+			get: (partition: string, index: number): number | undefined => partitions[partition]?.[index],
+			set: (partition: string, index: number, value: number): void => {
+				const partitionStorage = partitions[partition];
+				if (!partitionStorage) {
+					throw new Error(`Partition ${partition} not found`);
+				}
+				partitionStorage[index] = value;
+			},
+		} as unknown as PartitionStorage<T>;
+	}
+
 	/**
 	 * Set the archetype manager for optimized component lookups
 	 * @param archetypeManager The archetype manager to use
@@ -246,6 +502,44 @@ export class ComponentManager {
 		return result;
 	};
 
+	/**
+	 * Grow the change tracking and storage of every component
+	 *
+	 * ComponentInstances, their storage objects and StorageProxies are kept, with larger copies swapped in.
+	 * Sparse partitions (i.e., of components with `maxEntities`) and table storage do not depend on the capacity.
+	 * @param capacity - The new capacity
+	 */
+	grow = (capacity: number): void => {
+		this.#capacity = capacity;
+		// dense partitions are copied into one new buffer (sparse partitions keep their buffers alive)
+		const dense =
+			this.#storage === "partitioned"
+				? [...this.#registry.keys()].filter(({ maxEntities, schema }) => schema !== null && maxEntities === null)
+				: [];
+		const size = dense.reduce((acc, component) => acc + getBufferSize(component, capacity), 0);
+		const buffer = size > 0 ? new PartitionedBuffer(size, capacity) : null;
+		if (buffer) this.#buffers = [buffer];
+		for (const [component, instance] of this.#registry) {
+			const owners = BooleanArray.fromUint32Array(capacity, this.#owners.get(component)!.buffer);
+			const changed = BooleanArray.fromUint32Array(capacity, this.#changed.get(component)!.buffer);
+			const ticks = growTypedArray(this.#ticks.get(component)!, capacity);
+			this.#owners.set(component, owners);
+			this.#changed.set(component, changed);
+			this.#ticks.set(component, ticks);
+			this.#addedTicks.set(component, growTypedArray(this.#addedTicks.get(component)!, capacity));
+			this.#removedTicks.set(component, growTypedArray(this.#removedTicks.get(component)!, capacity));
+			instance[$_GROW_KEY](owners);
+			instance.proxy?.[$_GROW_KEY](capacity, changed, ticks);
+			if (buffer === null || !dense.includes(component)) continue;
+			const { partitions } = instance.storage as PartitionStorage<any>;
+			const grown = buffer.addPartition(component[$_PARTITION_KEY]) as PartitionStorage<any>;
+			for (const key in partitions) {
+				grown.partitions[key].set(partitions[key]);
+				partitions[key] = grown.partitions[key];
+			}
+		}
+	};
+
 	/**
 	 * Check if a component is registered
 	 * @param component - The component to check for
@@ -255,6 +549,37 @@ export class ComponentManager {
 		return this.getInstance(component) !== undefined;
 	};
 
+	/**
+	 * Call one lifecycle hook of every observer of a component
+	 * @param hook - The hook to call
+	 * @param component - The component whose observers to notify
+	 * @param entity - The entity to pass to the hook
+	 */
+	notify = (hook: keyof ComponentObserver, component: Component<any> | string, entity: Entity): void => {
+		const instance = this.getInstance(component);
+		if (!instance) return;
+		// copy, so observers may remove themselves while being notified
+		for (const observer of [...this.#observers.get(instance.type)!]) {
+			observer[hook]?.(entity);
+		}
+	};
+
+	/**
+	 * Observe a component's lifecycle
+	 * @param component - The component to observe
+	 * @param observer - The hooks to call
+	 * @returns A function which removes the observer
+	 * @throws {NotRegisteredError} If the component is not registered
+	 */
+	observe = <T extends SchemaOrNull<T>>(component: Component<T> | string, observer: ComponentObserver): (() => void) => {
+		const observers = this.#observers.get(this.#getRegisteredInstance(component).type)!;
+		observers.push(observer);
+		return () => {
+			const index = observers.indexOf(observer);
+			if (index !== -1) observers.splice(index, 1);
+		};
+	};
+
 	/**
 	 * Run routine maintenance on the component manager
 	 * @returns The component manager
@@ -263,6 +588,7 @@ export class ComponentManager {
 		for (const changed of this.#changed.values()) {
 			changed.clear();
 		}
+		this.#refreshTick = this.#tick++;
 		return this;
 	};
 
@@ -278,9 +604,37 @@ export class ComponentManager {
 	): ComponentInstance<any>[] => {
 		const instance = this.getInstance(component);
 		if (!instance) return this.#getEntityComponentsDirect(entity);
+		this.#removeInstanceFromEntity(instance, entity);
+		return this.#getEntityComponentsDirect(entity);
+	};
+
+	/**
+	 * Clear the ownership and changed state of a component instance on an entity
+	 * @param instance - The component instance to remove
+	 * @param entity - The entity to remove the component from
+	 */
+	#removeInstanceFromEntity(instance: ComponentInstance<any>, entity: Entity): void {
 		const { type } = instance;
-		this.#owners.get(type)?.set(entity, false);
+		const owners = this.#owners.get(type)!;
+		if (owners.get(entity)) {
+			this.#removedTicks.get(type)![entity] = this.#tick;
+		}
+		owners.set(entity, false);
 		this.#changed.get(type)?.set(entity, false);
+	}
+
+	/**
+	 * Remove several components from an entity at once
+	 * @param entity - The entity to remove the components from
+	 * @param components - The components to remove
+	 * @returns The component instances for this entity
+	 */
+	removeManyFromEntity = (entity: Entity, components: (Component<any> | string)[]): ComponentInstance<any>[] => {
+		for (const component of components) {
+			const instance = this.getInstance(component);
+			if (!instance) continue;
+			this.#removeInstanceFromEntity(instance, entity);
+		}
 		return this.#getEntityComponentsDirect(entity);
 	};
 
@@ -289,6 +643,7 @@ export class ComponentManager {
 	 * @param component - The component to set the data for
 	 * @param entity - The entity to set the data for
 	 * @param value - The data to set for the component
+	 * @returns The component manager
 	 */
 	setEntityData = <T extends SchemaOrNull<T>>(
 		component: Component<T> | string,
@@ -303,22 +658,107 @@ export class ComponentManager {
 		if (!storage) {
 			return this;
 		}
+		let written = false;
 		for (const key in value) {
 			if (key in storage) {
 				storage[key][entity] = value[key];
+				written = true;
 			}
 		}
+		if (written) {
+			this.#changed.get(instance.type)!.set(entity, true);
+			this.#ticks.get(instance.type)![entity] = this.#tick;
+			this.notify("onSet", instance.type, entity);
+		}
 		return this;
 	};
 
+	/**
+	 * Restore ownership, changed state and data from a snapshot
+	 *
+	 * If data is stored in archetype tables, archetype membership must be restored first.
+	 * @param snapshots - The component snapshots, matching {@link ComponentManager.snapshot} format
+	 * @throws {SpecError} - If the snapshot's components do not match the registered components
+	 */
+	restore = (snapshots: ComponentSnapshot[]): void => {
+		const instances = [...this.#registry.values()];
+		if (snapshots.length !== instances.length) {
+			throw new SpecError(`Snapshot has ${snapshots.length} components, world has ${instances.length}`);
+		}
+		for (let i = 0; i < instances.length; i++) {
+			const instance = instances[i]!;
+			const { name, owners, changed, data } = snapshots[i]!;
+			if (name !== instance.name) {
+				throw new SpecError(`Snapshot component ${i} is "${name}", world component ${i} is "${instance.name}"`);
+			}
+			const ownerState = this.#owners.get(instance.type)!;
+			ownerState.clear();
+			ownerState.buffer.set(owners);
+			const changedState = this.#changed.get(instance.type)!;
+			changedState.clear();
+			changedState.buffer.set(changed);
+			// restored changes and components are newer than any system run
+			const ticks = this.#ticks.get(instance.type)!;
+			ticks.fill(0);
+			for (const entity of changedState.truthyIndices()) {
+				ticks[entity] = this.#tick;
+			}
+			const addedTicks = this.#addedTicks.get(instance.type)!;
+			addedTicks.fill(0);
+			for (const entity of ownerState.truthyIndices()) {
+				addedTicks[entity] = this.#tick;
+			}
+			this.#removedTicks.get(instance.type)!.fill(0);
+			const storage = instance.storage?.partitions as Record<string, TypedArray> | undefined;
+			if (!storage || !data) continue;
+			for (const key in storage) {
+				const values = data[key];
+				if (!values) continue;
+				let j = 0;
+				for (const entity of ownerState.truthyIndices()) {
+					storage[key]![entity] = values[j++] ?? Number.NaN;
+				}
+			}
+		}
+	};
+
+	/**
+	 * Take a serializable snapshot of every component's ownership, changed state and data
+	 * @param includeData - Include each component's data (default `true`); otherwise `data` is `null`
+	 * @returns One snapshot per component, in registration (id) order
+	 */
+	snapshot = (includeData: boolean = true): ComponentSnapshot[] => {
+		const result: ComponentSnapshot[] = [];
+		for (const [type, instance] of this.#registry) {
+			const owners = this.#owners.get(type)!;
+			const storage = instance.storage?.partitions as Record<string, TypedArray> | undefined;
+			let data: Record<string, (number | null)[]> | null = null;
+			if (storage && includeData) {
+				data = {};
+				for (const key in storage) {
+					const values: (number | null)[] = [];
+					for (const entity of owners.truthyIndices()) {
+						const value = storage[key]![entity];
+						values.push(value !== undefined && Number.isFinite(value) ? value : null);
+					}
+					data[key] = values;
+				}
+			}
+			result.push({
+				name: type.name,
+				owners: Array.from(owners.buffer),
+				changed: Array.from(this.#changed.get(type)!.buffer),
+				data,
+			});
+		}
+		return result;
+	};
+
 	/**
 	 * Stringify the component manager
 	 * @returns A string representation of the component manager
 	 */
 	stringify = (): string => {
-		return JSON.stringify({
-			buffer: this.#buffer.toString(),
-			// TODO: serialize changed, owners, registry
-		});
+		return JSON.stringify(this.snapshot());
 	};
 }
@@ -5,6 +5,8 @@
  * @license     MIT
  */
 
+import type { BooleanArray } from "../../collections/boolean-array/BooleanArray";
+import { $_GROW_KEY } from "../constants";
 import { EntityNotFoundError } from "../errors";
 import type { Entity, SchemaOrNull, StorageProxySpec, TypedArray } from "../types";
 import { hasOwnProperty } from "../utils";
@@ -17,14 +19,22 @@ export class StorageProxy<T extends SchemaOrNull<T>> {
 	/** The capacity of the StorageProxy */
 	#capacity: number;
 
+	/** The changed state of each entity */
+	#changed: BooleanArray;
+
+	/** The tick of each entity's last change */
+	#ticks: Float64Array;
+
 	/**
 	 * Create a new StorageProxy
 	 * @param spec - The specification for the StorageProxy
 	 */
 	constructor(spec: StorageProxySpec<T>) {
-		const { capacity, changed, storage } = spec;
+		const { capacity, changed, observers, storage, tick, ticks } = spec;
 
 		this.#capacity = capacity;
+		this.#changed = changed;
+		this.#ticks = ticks;
 
 		// Create a getter and setter for each storage property
 		for (const key in storage?.partitions) {
@@ -33,9 +43,15 @@ export class StorageProxy<T extends SchemaOrNull<T>> {
 				get: () => storage?.partitions[key as keyof T][this.#entity],
 				set: (value: number) => {
 					const store = storage.partitions[key as keyof T] as TypedArray;
-					if (store[this.#entity] !== value) {
-						store[this.#entity] = value;
-						changed.set(this.#entity, true);
+					const entity = this.#entity;
+					if (store[entity] !== value) {
+						store[entity] = value;
+						this.#changed.set(entity, true);
+						this.#ticks[entity] = tick();
+						if (observers.length > 0) {
+							// copy, so observers may remove themselves while being notified
+							for (const observer of [...observers]) observer.onSet?.(entity);
+						}
 					}
 				},
 				enumerable: true,
@@ -56,4 +72,17 @@ export class StorageProxy<T extends SchemaOrNull<T>> {
 		}
 		this.#entity = value;
 	}
+
+	/**
+	 * @internal
+	 * Replace the change tracking after the World has grown
+	 * @param capacity - The new capacity of the World
+	 * @param changed - The changed state of each entity
+	 * @param ticks - The tick of each entity's last change
+	 */
+	[$_GROW_KEY](capacity: number, changed: BooleanArray, ticks: Float64Array): void {
+		this.#capacity = capacity;
+		this.#changed = changed;
+		this.#ticks = ticks;
+	}
 }
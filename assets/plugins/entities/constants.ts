@@ -13,6 +13,12 @@ import { randomString } from "./utils";
  */
 export const VERSION = "0.1.0" as const;
 
+/**
+ * @public
+ * The version of the World snapshot format
+ */
+export const SNAPSHOT_VERSION = 2 as const;
+
 /**
  * @internal
  * The minimum value for a Uint32
@@ -37,6 +43,12 @@ export const ID_KEY = "id" as const;
  */
 export const $_ARCHETYPE_KEY: unique symbol = Symbol(`$_ARCHETYPE_KEY_${randomString()}`);
 
+/**
+ * @internal
+ * The symbol used to hand grown entity tracking to an object after the World grows
+ */
+export const $_GROW_KEY: unique symbol = Symbol(`$_GROW_KEY_${randomString()}`);
+
 /**
  * @internal
  * The symbol used to store the component's partition
@@ -61,6 +73,38 @@ export const $_SYSTEM_INIT_KEY: unique symbol = Symbol(`$_SYSTEM_INIT_KEY_${rand
  */
 export const $_SYSTEM_DESTROY_KEY: unique symbol = Symbol(`$_SYSTEM_DESTROY_KEY_${randomString()}`);
 
+/**
+ * @public
+ * The phases a World runs its systems in during `world.step()`, in execution order
+ */
+export const SYSTEM_PHASES = ["preUpdate", "fixedUpdate", "update", "postUpdate", "render"] as const;
+
+/**
+ * @public
+ * The phase a System is scheduled in when its spec does not provide one
+ */
+export const DEFAULT_SYSTEM_PHASE = "update" as const;
+
+/**
+ * @public
+ * The maximum number of fixed steps a World will run in a single `world.step()` if its spec does not provide one
+ */
+export const DEFAULT_MAX_FIXED_STEPS = 5 as const;
+
+/**
+ * @public
+ * What happens to the sources of a Relation when its target is destroyed:
+ * - `"remove"` removes the pair from each source
+ * - `"cascade"` destroys each source (and, in turn, their sources)
+ */
+export const RELATION_POLICIES = ["remove", "cascade"] as const;
+
+/**
+ * @public
+ * The policy a Relation uses when its spec does not provide one
+ */
+export const DEFAULT_RELATION_POLICY = "remove" as const;
+
 /**
  * @internal
  * The list of invalid names
@@ -6,10 +6,11 @@
  */
 
 import { BitPool } from "../../collections/bitpool/BitPool";
+import { BooleanArray } from "../../collections/boolean-array/BooleanArray";
 
-import { EntityNotFoundError } from "../errors";
-import type { Entity, EntityManagerSerialized } from "../types";
-import { isPositiveUint32, isUint32, numberArrayFromString } from "../utils";
+import { EntityNotFoundError, SpecError } from "../errors";
+import type { Entity, EntityManagerSerialized, EntitySnapshot } from "../types";
+import { growTypedArray, isPositiveUint32, isUint32, numberArrayFromString } from "../utils";
 
 /** An EntityManager is responsible for creating and destroying entities */
 export class EntityManager {
@@ -19,6 +20,18 @@ export class EntityManager {
 	/** The entity ID pool */
 	pool: BitPool;
 
+	/** The current generation of each entity index, or `null` if handles are not generational */
+	#generations: Uint32Array | null = null;
+
+	/** The number of low bits of a handle which hold the entity index */
+	#indexBits: number = 0;
+
+	/** The mask for the entity index of a handle */
+	#indexMask: number = 0;
+
+	/** The highest generation a handle can hold before wrapping back to 1 */
+	#maxGeneration: number = 0;
+
 	/** @returns an iterable of all active entities */
 	getActive: (startEntity?: Entity, endEntity?: Entity) => IterableIterator<Entity>;
 
@@ -42,10 +55,17 @@ export class EntityManager {
 	 * Create a new EntityManager
 	 * @param capacity - The maximum number of entities allowed in the pool (inclusive)
 	 * @param pool - The pool to use for entity management
+	 * @param generational - Encode a generation in each entity handle to detect stale handles (default `false`)
+	 * @param maxCapacity - The capacity the pool can grow to, which sizes the index of generational handles (default `capacity`)
 	 * @throws {TypeError} - If the capacity is not a Uint32 number
 	 * @throws {RangeError} - If the capacity is not a positive integer or above 0 and below {@link EntityManager.MAX_CAPACITY}
 	 */
-	constructor(capacity: number, pool: BitPool = new BitPool(capacity)) {
+	constructor(
+		capacity: number,
+		pool: BitPool = new BitPool(capacity),
+		generational: boolean = false,
+		maxCapacity: number = capacity
+	) {
 		if (isUint32(capacity) === false) {
 			throw new TypeError("EntityManager capacity must be a number (uint32)");
 		}
@@ -56,6 +76,13 @@ export class EntityManager {
 		}
 		this.pool = pool;
 		this.getActive = this.pool.occupiedIndices.bind(this.pool);
+		if (generational) {
+			// handles are `generation << indexBits | index`, and generation 0 is reserved for raw indices
+			this.#indexBits = Math.max(1, Math.ceil(Math.log2(Math.max(capacity, maxCapacity))));
+			this.#indexMask = 2 ** this.#indexBits - 1;
+			this.#maxGeneration = 2 ** (32 - this.#indexBits) - 1;
+			this.#generations = new Uint32Array(capacity).fill(1);
+		}
 	}
 
 	/** @returns the maximum number of entities allowed in the pool (inclusive) */
@@ -63,6 +90,11 @@ export class EntityManager {
 		return this.pool.size;
 	}
 
+	/** @returns `true` if entity handles encode a generation */
+	get generational(): boolean {
+		return this.#generations !== null;
+	}
+
 	/**
 	 * Create a new entity
 	 * @returns The new `Entity`, or `undefined` if the pool is full
@@ -72,19 +104,64 @@ export class EntityManager {
 		if (entity === -1) {
 			return undefined;
 		}
-		return entity;
+		return this.getHandle(entity);
 	};
 
 	/**
 	 * Destroy an entity
-	 * @param entity - The entity to destroy
-	 * @throws {EntityNotFoundError} - If the entity is not found
+	 *
+	 * In generational mode, this invalidates every handle to the entity.
+	 * @param entity - The entity (or handle) to destroy
+	 * @throws {EntityNotFoundError} - If the entity is not found, or the handle is stale
 	 */
 	destroy = (entity: Entity): void => {
 		if (this.isEntity(entity) === false) {
 			throw new EntityNotFoundError(entity);
 		}
-		this.pool.release(entity);
+		const generations = this.#generations;
+		if (generations === null) {
+			this.pool.release(entity);
+			return;
+		}
+		const index = entity & this.#indexMask;
+		this.pool.release(index);
+		generations[index] = generations[index]! >= this.#maxGeneration ? 1 : generations[index]! + 1;
+	};
+
+	/**
+	 * Get the current generation of an entity index
+	 * @param index - The entity index
+	 * @returns The generation, or `0` if handles are not generational
+	 */
+	getGeneration = (index: Entity): number => {
+		return this.#generations?.[index] ?? 0;
+	};
+
+	/**
+	 * Get the current handle for an entity index (e.g., one yielded by a query)
+	 * @param index - The entity index
+	 * @returns The entity's handle, or `index` if handles are not generational
+	 */
+	getHandle = (index: Entity): Entity => {
+		const generations = this.#generations;
+		if (generations === null) return index;
+		return (generations[index]! * (this.#indexMask + 1) + index) as Entity;
+	};
+
+	/**
+	 * Get the storage index of an entity handle
+	 *
+	 * Raw indices (i.e., those yielded by queries) are returned unchanged.
+	 * @param entity - The entity handle
+	 * @returns The entity's index into component storage
+	 * @throws {EntityNotFoundError} - If the handle is stale or invalid (generational mode only)
+	 */
+	getIndex = (entity: Entity): Entity => {
+		if (this.#generations === null) return entity;
+		if (this.isEntity(entity) === false) {
+			throw new EntityNotFoundError(entity);
+		}
+		return (entity & this.#indexMask) as Entity;
 	};
 
 	/** @returns the number of active entities */
@@ -97,13 +174,33 @@ export class EntityManager {
 		return this.capacity - this.pool.occupiedCount;
 	};
 
+	/**
+	 * Grow the entity pool, keeping its active entities and their handles
+	 * @param capacity - The new capacity
+	 * @throws {RangeError} - If the capacity is not above the current capacity, or does not fit in a handle's index
+	 */
+	grow = (capacity: number): void => {
+		if (!isUint32(capacity) || capacity <= this.capacity || capacity > EntityManager.MAX_CAPACITY) {
+			throw new RangeError(`EntityManager capacity must be above ${this.capacity} and below ${EntityManager.MAX_CAPACITY}`);
+		}
+		if (this.#generations !== null && capacity > this.#indexMask + 1) {
+			throw new RangeError(`EntityManager capacity must not be above ${this.#indexMask + 1} in generational mode`);
+		}
+		this.pool = new BitPool(BooleanArray.fromUint32Array(capacity, [...this.pool]));
+		this.getActive = this.pool.occupiedIndices.bind(this.pool);
+		if (this.#generations !== null) {
+			this.#generations = growTypedArray(this.#generations, capacity, 1);
+		}
+	};
+
 	/**
 	 * Check if an entity exists (i.e., is valid && is active)
 	 * @param entity - The entity to check
 	 * @returns `true` if the entity exists, `false` otherwise
 	 */
 	isActive = (entity: Entity): boolean => {
-		return this.isEntity(entity) && this.pool.isOccupied(entity);
+		if (this.isEntity(entity) === false) return false;
+		return this.pool.isOccupied(this.#generations === null ? entity : entity & this.#indexMask);
 	};
 
 	/**
@@ -113,7 +210,51 @@ export class EntityManager {
 	 * @see EntityManager.exists to check if an entity is valid and resident
 	 */
 	isEntity = (entity: Entity): entity is Entity => {
-		return (entity === 0 || isPositiveUint32(entity)) && entity < this.capacity;
+		const generations = this.#generations;
+		if (generations === null) {
+			return (entity === 0 || isPositiveUint32(entity)) && entity < this.capacity;
+		}
+		if (entity !== 0 && !isPositiveUint32(entity)) return false;
+		const index = entity & this.#indexMask;
+		const generation = Math.floor(entity / (this.#indexMask + 1));
+		return index < this.capacity && (generation === 0 || generation === generations[index]);
+	};
+
+	/**
+	 * Restore the entity pool from a snapshot
+	 * @param snapshot - The snapshot to restore, matching {@link EntityManager.snapshot} format
+	 * @throws {RangeError} - If the snapshot's capacity does not match this EntityManager's capacity
+	 * @throws {SpecError} - If the snapshot has generations and this EntityManager is not generational
+	 */
+	restore = (snapshot: EntitySnapshot): void => {
+		if (snapshot.capacity !== this.capacity) {
+			throw new RangeError(`EntityManager capacity mismatch: ${snapshot.capacity} !== ${this.capacity}`);
+		}
+		const { generations = null } = snapshot;
+		if (generations !== null && this.#generations === null) {
+			throw new SpecError("Snapshot has entity generations but the EntityManager is not generational");
+		}
+		this.pool = new BitPool(BooleanArray.fromUint32Array(this.capacity, snapshot.pool));
+		this.getActive = this.pool.occupiedIndices.bind(this.pool);
+		if (this.#generations !== null) {
+			if (generations === null) {
+				this.#generations.fill(1);
+			} else {
+				this.#generations.set(generations);
+			}
+		}
+	};
+
+	/**
+	 * Take a serializable snapshot of the entity pool
+	 * @returns The entity pool's capacity and occupancy words, and each index's generation in generational mode
+	 */
+	snapshot = (): EntitySnapshot => {
+		return {
+			capacity: this.capacity,
+			pool: [...this.pool],
+			generations: this.#generations ? Array.from(this.#generations) : null,
+		};
 	};
 
 	/**
@@ -55,3 +55,6 @@ export const NoComponentsFoundError: typeof MiskiError = createErrorClass(
 
 /** An error thrown when something is not registered */
 export const NotRegisteredError: typeof MiskiError = createErrorClass("NotRegisteredError", "Not registered");
+
+/** An error thrown when a required resource is missing */
+export const ResourceNotFoundError: typeof MiskiError = createErrorClass("ResourceNotFoundError", "Resource not found");
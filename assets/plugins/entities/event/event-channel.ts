@@ -0,0 +1,61 @@
+/**
+ * @module      EventChannel
+ * @description An EventChannel is a typed key for short-lived messages between systems.
+ * @copyright   2024 the Miski authors. All rights reserved.
+ * @license     MIT
+ *
+ * @example
+ * ```ts
+ * const DamageDealt = new EventChannel<{ target: number; amount: number }>("damageDealt");
+ *
+ * world.events.send(DamageDealt, { target, amount: 10 });
+ *
+ * const reader = world.events.reader(DamageDealt);
+ * for (const { target, amount } of reader.read()) { ... }
+ * ```
+ */
+
+import { isValidName } from "../utils";
+
+/** EventChannel type guard */
+export function isEventChannel(channel: unknown): channel is EventChannel<unknown> {
+	return !!(channel && channel instanceof EventChannel);
+}
+
+/** Checks if a value is an array of EventChannels */
+export function isValidEventChannelArray(array: unknown): array is EventChannel<unknown>[] {
+	if (!Array.isArray(array)) return false;
+	for (let i = 0; i < array.length; i++) {
+		if (!isEventChannel(array[i])) return false;
+	}
+	return true;
+}
+
+/**
+ * An EventChannel is a typed key for short-lived messages between systems.
+ *
+ * Channels are stored by name, so channels with the same name share their events.
+ */
+export class EventChannel<T> {
+	/** The channel's label */
+	readonly name: string;
+
+	/** Phantom field carrying the event type */
+	declare readonly __type?: T;
+
+	/**
+	 * Create a new event channel.
+	 * @param name - The channel's label
+	 * @throws {TypeError} - If the name is invalid
+	 */
+	constructor(name: string) {
+		if (!isValidName(name)) {
+			throw new TypeError("Invalid event channel name.");
+		}
+		this.name = name;
+	}
+
+	get [Symbol.toStringTag](): string {
+		return "EventChannel";
+	}
+}
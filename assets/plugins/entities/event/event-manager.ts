@@ -0,0 +1,162 @@
+/**
+ * @module      EventManager
+ * @description The EventManager double buffers each EventChannel's events.
+ * @copyright   2024 the Miski authors. All rights reserved.
+ * @license     MIT
+ */
+
+import { NotRegisteredError, WorldStateError } from "../errors";
+import type { EventChannel } from "./event-channel";
+
+/**
+ * The buffered events of one channel
+ *
+ * Every event has a sequence number; `start` is the sequence number of `previous[0]`.
+ */
+type ChannelBuffers<T> = {
+	/** Events sent during the last frame */
+	previous: T[];
+	/** Events sent during the current frame */
+	current: T[];
+	/** The sequence number of the oldest buffered event */
+	start: number;
+};
+
+/** An EventReader iterates the events of one channel which it has not yet seen */
+export class EventReader<T> {
+	/** The channel's buffers */
+	readonly #buffers: ChannelBuffers<T>;
+
+	/** The sequence number of the next event to read */
+	#cursor: number;
+
+	/**
+	 * Create a new EventReader which starts at the oldest buffered event
+	 * @param buffers - The channel's buffers
+	 */
+	constructor(buffers: ChannelBuffers<T>) {
+		this.#buffers = buffers;
+		this.#cursor = buffers.start;
+	}
+
+	/** @returns the number of buffered events this reader has not yet seen */
+	get unread(): number {
+		const { previous, current, start } = this.#buffers;
+		return start + previous.length + current.length - Math.max(this.#cursor, start);
+	}
+
+	/** Mark every buffered event as seen */
+	clear(): void {
+		const { previous, current, start } = this.#buffers;
+		this.#cursor = start + previous.length + current.length;
+	}
+
+	/**
+	 * Iterate the events this reader has not yet seen, oldest first
+	 *
+	 * Events expire after two frames, so a reader which is not read for longer will miss events.
+	 * @returns An iterable of unseen events
+	 */
+	*read(): IterableIterator<T> {
+		const buffers = this.#buffers;
+		if (this.#cursor < buffers.start) this.#cursor = buffers.start;
+		while (true) {
+			const { previous, current, start } = buffers;
+			const offset = this.#cursor - start;
+			if (offset >= previous.length + current.length) return;
+			this.#cursor++;
+			yield offset < previous.length ? previous[offset]! : current[offset - previous.length]!;
+		}
+	}
+}
+
+/** The EventManager double buffers each EventChannel's events */
+export class EventManager {
+	/** The buffers of each channel by name */
+	readonly #channels: Map<string, ChannelBuffers<unknown>> = new Map();
+
+	/** The name of the running system, if any */
+	#system: string | null = null;
+
+	/** The running system's readers by channel name */
+	#readers: Map<string, EventReader<unknown>> | null = null;
+
+	/**
+	 * Called before a system runs
+	 * @param system - The system's name
+	 * @param readers - The system's readers by channel name
+	 */
+	beginSystem = (system: string, readers: Map<string, EventReader<unknown>>): void => {
+		this.#system = system;
+		this.#readers = readers;
+	};
+
+	/** Called after a system runs */
+	endSystem = (): void => {
+		this.#system = null;
+		this.#readers = null;
+	};
+
+	/**
+	 * Get (or create) the buffers of a channel
+	 * @param channel - The channel
+	 * @returns The channel's buffers
+	 */
+	#getBuffers<T>(channel: EventChannel<T>): ChannelBuffers<T> {
+		let buffers = this.#channels.get(channel.name);
+		if (buffers === undefined) {
+			buffers = { previous: [], current: [], start: 0 };
+			this.#channels.set(channel.name, buffers);
+		}
+		return buffers as ChannelBuffers<T>;
+	}
+
+	/**
+	 * Iterate the events of a channel which the running system has not yet seen, oldest first
+	 *
+	 * Each system has its own reader for every channel it declares in `reads`.
+	 * @param channel - The channel to read
+	 * @returns An iterable of unseen events
+	 * @throws {WorldStateError} - If no system is running
+	 * @throws {NotRegisteredError} - If the running system does not declare that it reads the channel
+	 */
+	read = <T>(channel: EventChannel<T>): IterableIterator<T> => {
+		if (this.#readers === null) {
+			throw new WorldStateError("Events can only be read while a system runs; use a reader instead.");
+		}
+		const reader = this.#readers.get(channel.name) as EventReader<T> | undefined;
+		if (reader === undefined) {
+			throw new NotRegisteredError(`System "${this.#system}" does not read event channel "${channel.name}"`);
+		}
+		return reader.read();
+	};
+
+	/**
+	 * Create a reader for a channel, starting at the oldest buffered event
+	 * @param channel - The channel to read
+	 * @returns A new EventReader
+	 */
+	reader = <T>(channel: EventChannel<T>): EventReader<T> => {
+		return new EventReader(this.#getBuffers(channel));
+	};
+
+	/**
+	 * Send an event to every reader of a channel
+	 * @param channel - The channel to send to
+	 * @param event - The event
+	 */
+	send = <T>(channel: EventChannel<T>, event: T): void => {
+		this.#getBuffers(channel).current.push(event);
+	};
+
+	/** Swap each channel's buffers, dropping the events of two frames ago */
+	update = (): void => {
+		for (const buffers of this.#channels.values()) {
+			const expired = buffers.previous;
+			buffers.start += expired.length;
+			buffers.previous = buffers.current;
+			expired.length = 0;
+			buffers.current = expired;
+		}
+	};
+}
@@ -0,0 +1,110 @@
+/**
+ * @module      Prefab
+ * @description A Prefab is a reusable entity template of components and their default data.
+ * @copyright   2024 the Miski authors. All rights reserved.
+ * @license     MIT
+ *
+ * @example
+ * ```ts
+ * const enemy = new Prefab({ name: "enemy", components: [hostile, [health, { value: 100 }]] });
+ * const orc = new Prefab({ name: "orc", extends: enemy, components: [[health, { value: 80 }]] });
+ *
+ * const entity = world.entities.spawn(orc, [[position, { x: 10, y: 0 }]]);
+ * ```
+ */
+
+import { isComponent } from "../component/component";
+import { SpecError } from "../errors";
+import type { ComponentEntry, PrefabJSON, PrefabSpec } from "../types";
+import { isObject, isValidName } from "../utils";
+
+/**
+ * Prefab specification type guard.
+ * @param spec - The prefab's specification.
+ * @returns `true` if the spec is valid, `false` otherwise
+ */
+export function isValidPrefabSpec(spec: unknown): spec is PrefabSpec {
+	if (isObject(spec) === false) return false;
+	const { name, extends: parent, components } = spec as PrefabSpec;
+	if (!isValidName(name)) return false;
+	if (parent != null && !(parent instanceof Prefab)) return false;
+	if (!Array.isArray(components)) return false;
+	return components.every((entry) => {
+		const [component, data] = Array.isArray(entry) ? entry : [entry];
+		if (!isComponent(component) && typeof component !== "string") return false;
+		return data === undefined || isObject(data);
+	});
+}
+
+/** A Prefab is a reusable entity template of components and their default data */
+export class Prefab {
+	/**
+	 * Create a Prefab from its plain JSON format
+	 * @param json - The prefab definition (or its JSON string)
+	 * @param prefabs - The prefabs available to inherit from
+	 * @returns A new Prefab
+	 * @throws {SpecError} - If the definition is invalid, or its parent is not in `prefabs`
+	 */
+	static fromJSON(json: PrefabJSON | string, prefabs: Prefab[] = []): Prefab {
+		const { name, extends: parentName = null, components } = (
+			typeof json === "string" ? JSON.parse(json) : json
+		) as PrefabJSON;
+		if (!isObject(components)) {
+			throw new SpecError(`Prefab "${name}" has no components`);
+		}
+		let parent: Prefab | null = null;
+		if (parentName !== null) {
+			parent = prefabs.find((prefab) => prefab.name === parentName) ?? null;
+			if (parent === null) {
+				throw new SpecError(`Prefab "${name}" extends unknown prefab "${parentName}"`);
+			}
+		}
+		const entries: ComponentEntry[] = Object.entries(components).map(([component, data]) =>
+			data ? [component, data] : component
+		);
+		try {
+			return new Prefab({ name, extends: parent, components: entries });
+		} catch {
+			throw new SpecError(`Invalid prefab definition "${name}"`);
+		}
+	}
+
+	/** The prefab's label */
+	readonly name: string;
+
+	/** The prefab this prefab inherits from */
+	readonly parent: Prefab | null;
+
+	/** The prefab's own components and default data */
+	readonly components: readonly ComponentEntry[];
+
+	/**
+	 * Create a new prefab.
+	 * @param spec - The prefab's specification.
+	 * @throws {TypeError} - If the spec is invalid
+	 */
+	constructor(spec: PrefabSpec) {
+		if (!isValidPrefabSpec(spec)) {
+			throw new TypeError("Invalid prefab specification.");
+		}
+		this.name = spec.name;
+		this.parent = spec.extends ?? null;
+		this.components = Object.freeze(
+			spec.components.map((entry) => (Array.isArray(entry) ? ([entry[0], { ...entry[1] }] as ComponentEntry) : entry))
+		);
+	}
+
+	/**
+	 * Get the components of this prefab and its ancestors, ancestors first
+	 *
+	 * A component may appear more than once; later entries override earlier ones' data.
+	 * @returns The prefab's component entries
+	 */
+	entries(): ComponentEntry[] {
+		return this.parent ? [...this.parent.entries(), ...this.components] : [...this.components];
+	}
+
+	get [Symbol.toStringTag](): string {
+		return "Prefab";
+	}
+}
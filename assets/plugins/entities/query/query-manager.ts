@@ -7,12 +7,24 @@
 
 import { BooleanArray } from "../../collections/boolean-array/BooleanArray";
 import type { Archetype } from "../archetype/archetype";
+import type { Component } from "../component/component";
 import type { ComponentInstance } from "../component/component-instance";
-import type { ComponentInstanceGetter, Entity, QueryInstance, SchemaOrNull } from "../types";
+import type { ComponentManager } from "../component/component-manager";
+import { NotRegisteredError } from "../errors";
+import type {
+	ChunkCallback,
+	ComponentInstanceGetter,
+	Entity,
+	QueryInstance,
+	QuerySnapshot,
+	QuerySubscriber,
+	SchemaOrNull,
+} from "../types";
 import type { World } from "../world/World";
 import { QueryCache } from "./query-cache";
 import { QueryResultPool } from "./query-pool";
-import type { Query } from "./query";
+import { Query } from "./query";
+import { QuerySubscription } from "./query-subscription";
 
 /**
  * @internal
@@ -61,9 +73,25 @@ function getEntitiesFromQuery(this: QueryManager, query: Query): IterableIterato
 	// Update last seen version after computing
 	this.lastQueryVersion.set(queryId, this.cache.version);
 
+	// change filters are applied on top of the cached result, as they change without any structural change
+	if (query.isFiltered) return filterEntities(this, query, result.truthyIndices());
 	return result.truthyIndices();
 }
 
+/**
+ * @internal
+ * Filter entities by a query's change filters
+ * @param manager - The QueryManager
+ * @param query - The Query with the change filters
+ * @param entities - The entities matching the query's components
+ * @returns An iterable iterator of the entities which pass every filter
+ */
+function* filterEntities(manager: QueryManager, query: Query, entities: IterableIterator<number>): IterableIterator<Entity> {
+	for (const entity of entities) {
+		if (manager.passesFilters(query, entity as Entity)) yield entity as Entity;
+	}
+}
+
 /**
  * @internal
  * Creates a runtime instance of a Query for efficient entity matching
@@ -94,9 +122,16 @@ function createQueryInstance(getInstances: ComponentInstanceGetter, size: number
 		not.set(instance.id, true);
 	}
 
+	// Create optional bit array - marks components provided to systems, which never affect matching
+	const optionalInstances = getInstances(query.optional).filter(Boolean) as ComponentInstance<SchemaOrNull<any>>[];
+	const optional = new BooleanArray(size);
+	for (const instance of optionalInstances) {
+		optional.set(instance.id, true);
+	}
+
 	// Build lookup table for quick component access
 	const components: Record<string, ComponentInstance<SchemaOrNull<any>>> = {};
-	for (const instance of [...andInstances, ...orInstances]) {
+	for (const instance of [...andInstances, ...orInstances, ...optionalInstances]) {
 		components[instance.name] = instance;
 	}
 	Object.freeze(components);
@@ -105,7 +140,9 @@ function createQueryInstance(getInstances: ComponentInstanceGetter, size: number
 	const archetypes = new Set<Archetype>();
 
 	// Check if a component is a candidate for the query
+	// (reads the instance's arrays, as they are replaced when components are registered later)
 	const isCandidate = (target: number, idx: number): boolean => {
+		const { and, or, not } = instance;
 		// AND
 		if (!((target & and.buffer[idx]!) === and.buffer[idx])) return false;
 		// OR
@@ -114,10 +151,19 @@ function createQueryInstance(getInstances: ComponentInstanceGetter, size: number
 		return (target & not.buffer[idx]!) === 0;
 	};
 
-	// turn the three arrays into a string
-	const id = `${and.toString()}:${or.toString()}:${not.toString()}`;
+	const instance: QueryInstance = { and, or, not, optional, archetypes, isCandidate, components, isDirty: true, id: "" };
+	instance.id = getQueryInstanceId(instance);
+	return instance;
+}
 
-	return { and, or, not, archetypes, isCandidate, components, isDirty: true, id };
+/**
+ * @internal
+ * Get the id of a QueryInstance from its bitfields
+ * @param instance - The QueryInstance
+ * @returns The four arrays as a string
+ */
+function getQueryInstanceId({ and, or, not, optional }: QueryInstance): string {
+	return `${and.toString()}:${or.toString()}:${not.toString()}:${optional.toString()}`;
 }
 
 /** The QueryManager is responsible for creating, registering, and destroying queries. */
@@ -138,19 +184,33 @@ export class QueryManager {
 	readonly idsByQuery: Map<Query, string>;
 
 	/** Boolean array for visited entities */
-	readonly visited: BooleanArray;
+	visited: BooleanArray;
+
+	/** The active query subscriptions, in subscription order */
+	readonly subscriptions: Set<QuerySubscription>;
+
+	/** Tracks the changes checked by change filters */
+	readonly #componentManager: ComponentManager;
+
+	/** The capacity of the World */
+	#capacity: number;
 
 	/**
 	 * Create a new QueryManager
 	 * @param world - The World instance containing the component registry
+	 * @param capacity - The capacity of the World
+	 * @param componentManager - The World's component manager, which tracks the changes checked by change filters
 	 */
-	constructor(world: World, capacity: number) {
+	constructor(world: World, capacity: number, componentManager: ComponentManager) {
+		this.#componentManager = componentManager;
+		this.#capacity = capacity;
 		this.pool = new QueryResultPool(capacity);
 		this.cache = new QueryCache(this.pool);
 		this.lastQueryVersion = new Map();
 		this.instancesByID = new Map();
 		this.idsByQuery = new Map();
 		this.visited = new BooleanArray(capacity);
+		this.subscriptions = new Set();
 
 		this.components = getComponentsFromQuery.bind(this);
 
@@ -181,6 +241,18 @@ export class QueryManager {
 
 			return instance;
 		}.bind(this);
+
+		this.subscribe = (query: Query, subscriber: QuerySubscriber): (() => void) => {
+			const subscription = new QuerySubscription(this.#capacity, this.register(query), subscriber);
+			// entities which already match are members, but are not reported
+			for (const entity of world.archetypes.queryEntities(query)) {
+				if (world.entities.isActive(entity)) subscription.seed(entity);
+			}
+			this.subscriptions.add(subscription);
+			return () => {
+				this.subscriptions.delete(subscription);
+			};
+		};
 	}
 
 	/** Get components for a query */
@@ -192,6 +264,174 @@ export class QueryManager {
 	/** Register a query */
 	register: (query: Query) => QueryInstance;
 
+	/**
+	 * Call a function once per Archetype matching a query, with its Entities and their storage partitions
+	 * @param query - The query to iterate
+	 * @param callback - The function to call per Archetype
+	 */
+	forEachChunk = (query: Query, callback: ChunkCallback): void => {
+		const instance = this.register(query);
+		for (const archetype of instance.archetypes) {
+			const entities = archetype.getDenseEntities();
+			if (entities.length === 0) continue;
+			callback(entities, archetype.getColumns(instance));
+		}
+	};
+
+	/**
+	 * Subscribe to the entities entering and exiting a query
+	 * @param query - The query to subscribe to
+	 * @param subscriber - The callbacks to run at refresh time
+	 * @returns A function which removes the subscription
+	 */
+	subscribe: (query: Query, subscriber: QuerySubscriber) => () => void;
+
+	/**
+	 * Update each subscription's membership and queue its callbacks
+	 *
+	 * Callbacks are queued rather than run, so they can make structural changes once the refresh has finished.
+	 * @param entities - The entities which entered or exited an archetype since the last refresh
+	 * @param getArchetype - Get an entity's archetype, or `undefined` if the entity is not active
+	 * @param pending - The queue to push callbacks onto
+	 */
+	collect = (
+		entities: Iterable<Entity>,
+		getArchetype: (entity: Entity) => Archetype | undefined,
+		pending: (() => void)[]
+	): void => {
+		for (const entity of entities) {
+			const archetype = getArchetype(entity);
+			for (const subscription of this.subscriptions) {
+				const transition = subscription.update(entity, archetype);
+				if (transition === undefined) continue;
+				const callback = transition === "enter" ? subscription.subscriber.onEnter : subscription.subscriber.onExit;
+				if (callback === undefined) continue;
+				pending.push(() => {
+					// skip subscriptions removed by an earlier callback
+					if (this.subscriptions.has(subscription)) callback(entity);
+				});
+			}
+		}
+	};
+
+	/**
+	 * Check an entity against a query's change filters
+	 * @param query - The Query
+	 * @param entity - The entity
+	 * @returns `true` if the entity passes every change filter
+	 */
+	passesFilters = (query: Query, entity: Entity): boolean => {
+		const isFiltered = this.#componentManager.isFiltered;
+		for (const component of query.changed) {
+			if (!isFiltered("changed", component, entity)) return false;
+		}
+		for (const component of query.added) {
+			if (!isFiltered("added", component, entity)) return false;
+		}
+		for (const component of query.removed) {
+			if (!isFiltered("removed", component, entity)) return false;
+		}
+		return true;
+	};
+
+	/**
+	 * Register the queries recorded in a snapshot
+	 * @param snapshots - The query snapshots, matching {@link QueryManager.snapshot} format
+	 * @param world - The World to look up components in
+	 * @throws {NotRegisteredError} - If a query names a component which is not registered
+	 */
+	restore = (snapshots: QuerySnapshot[], world: World): void => {
+		const toComponents = (names: string[]) =>
+			names.map((name) => {
+				const instance = world.components.getInstance(name);
+				if (!instance) {
+					throw new NotRegisteredError(`Component "${name}" not registered.`);
+				}
+				return instance.type;
+			});
+		for (const { all, any, none, optional = [] } of snapshots) {
+			this.register(
+				new Query({
+					all: toComponents(all),
+					any: toComponents(any),
+					none: toComponents(none),
+					optional: toComponents(optional),
+				})
+			);
+		}
+	};
+
+	/**
+	 * Take a serializable snapshot of the registered queries
+	 * @returns The id and component names of each registered QueryInstance
+	 */
+	snapshot = (): QuerySnapshot[] => {
+		const result = new Map<string, QuerySnapshot>();
+		const toNames = (components: Query["all"]) => components.map((component) => component.name);
+		for (const [query, id] of this.idsByQuery) {
+			if (result.has(id)) continue;
+			result.set(id, {
+				id,
+				all: toNames(query.all),
+				any: toNames(query.any),
+				none: toNames(query.none),
+				optional: toNames(query.optional),
+			});
+		}
+		return [...result.values()];
+	};
+
+	/**
+	 * Grow the entity tracking after the World has grown
+	 *
+	 * Cached results are invalidated, and rebuilt at the new capacity on their next use.
+	 * @param capacity - The new capacity of the World
+	 */
+	grow = (capacity: number): void => {
+		this.#capacity = capacity;
+		this.pool.resize(capacity);
+		this.visited = new BooleanArray(capacity);
+		for (const subscription of this.subscriptions) {
+			subscription.grow(capacity);
+		}
+		this.cache.invalidate();
+	};
+
+	/**
+	 * Widen every QueryInstance's bitfields to fit a newly registered component
+	 *
+	 * QueryInstances are widened in place, so they keep their matched archetypes and subscriptions.
+	 * Queries which named the component before it was registered get a new QueryInstance on their next use.
+	 * @param componentCount - The number of components registered in the world
+	 * @param component - The newly registered component
+	 */
+	widen = (componentCount: number, component: Component<any>): void => {
+		for (const query of this.idsByQuery.keys()) {
+			if ([query.all, query.any, query.none, query.optional].some((components) => components.includes(component))) {
+				this.idsByQuery.delete(query);
+			}
+		}
+		const instances = [...this.instancesByID.values()];
+		this.instancesByID.clear();
+		for (const instance of instances) {
+			instance.and = BooleanArray.fromUint32Array(componentCount, instance.and.buffer);
+			instance.or = BooleanArray.fromUint32Array(componentCount, instance.or.buffer);
+			instance.not = BooleanArray.fromUint32Array(componentCount, instance.not.buffer);
+			instance.optional = BooleanArray.fromUint32Array(componentCount, instance.optional.buffer);
+			const id = getQueryInstanceId(instance);
+			// the id only changes when the bitfields need another chunk
+			if (id !== instance.id) {
+				for (const [query, queryId] of this.idsByQuery) {
+					if (queryId === instance.id) this.idsByQuery.set(query, id);
+				}
+				this.lastQueryVersion.delete(instance.id);
+				instance.id = id;
+			}
+			this.instancesByID.set(id, instance);
+		}
+		this.cache.invalidate();
+	};
+
 	/** Mark query as dirty and invalidate caches */
 	invalidate = (query?: Query): void => {
 		if (query) {
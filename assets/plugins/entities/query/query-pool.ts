@@ -15,7 +15,14 @@ export class QueryResultPool {
   }
 
   releaseEntityArray(array: BooleanArray): void {
+    // arrays acquired before the world grew are dropped
+    if (array.size !== this.#size) return;
     array.clear();
     this.#entityArrays.push(array);
   }
+
+  resize(size: number): void {
+    this.#size = size;
+    this.#entityArrays = [];
+  }
 }
@@ -0,0 +1,67 @@
+/**
+ * @module      QuerySubscription
+ * @description A QuerySubscription reports the entities which enter or exit a query at each refresh.
+ * @copyright   2024 the Miski authors. All rights reserved.
+ * @license     MIT
+ */
+
+import { BooleanArray } from "../../collections/boolean-array/BooleanArray";
+import type { Archetype } from "../archetype/archetype";
+import type { Entity, QueryInstance, QuerySubscriber } from "../types";
+
+/** A QuerySubscription reports the entities which enter or exit a query at each refresh */
+export class QuerySubscription {
+	/** The query's runtime instance */
+	readonly instance: QueryInstance;
+
+	/** The callbacks to run */
+	readonly subscriber: QuerySubscriber;
+
+	/** Entities which matched the query at the last refresh */
+	#members: BooleanArray;
+
+	/**
+	 * Create a new QuerySubscription
+	 * @param capacity - The capacity of the World
+	 * @param instance - The query's runtime instance
+	 * @param subscriber - The callbacks to run
+	 */
+	constructor(capacity: number, instance: QueryInstance, subscriber: QuerySubscriber) {
+		this.instance = instance;
+		this.subscriber = subscriber;
+		this.#members = new BooleanArray(capacity);
+	}
+
+	/**
+	 * Grow the membership tracking after the World has grown
+	 * @param capacity - The new capacity of the World
+	 */
+	grow(capacity: number): void {
+		this.#members = BooleanArray.fromUint32Array(capacity, this.#members.buffer);
+	}
+
+	/**
+	 * Record an entity as matching without reporting it (e.g., entities which matched before subscribing)
+	 * @param entity - The entity
+	 */
+	seed(entity: Entity): void {
+		this.#members.set(entity, true);
+	}
+
+	/**
+	 * Update an entity's membership
+	 * @param entity - The entity
+	 * @param archetype - The entity's current archetype, or `undefined` if it is not active
+	 * @returns `"enter"` or `"exit"` if the entity's membership changed, `undefined` otherwise
+	 */
+	update(entity: Entity, archetype: Archetype | undefined): "enter" | "exit" | undefined {
+		const matches = archetype !== undefined && archetype.isCandidate(this.instance);
+		if (this.#members.get(entity) === matches) return undefined;
+		this.#members.set(entity, matches);
+		return matches ? "enter" : "exit";
+	}
+
+	get [Symbol.toStringTag](): string {
+		return "QuerySubscription";
+	}
+}
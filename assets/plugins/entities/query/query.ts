@@ -18,13 +18,19 @@ import { isObject } from "../utils";
  */
 export const isValidQuerySpec = (spec: unknown): spec is QuerySpec => {
 	if (isObject(spec) === false) return false;
-	const { all, any, none } = spec as QuerySpec;
+	const { all, any, none, optional, changed, added, removed } = spec as QuerySpec;
 	// ensure at least one of the arrays is defined
-	if (all == undefined && any == undefined && none == undefined) return false;
+	if (all == undefined && any == undefined && none == undefined) {
+		if (changed == undefined && added == undefined && removed == undefined) return false;
+	}
 	// ensure all arrays are valid component arrays
 	if (all && isValidComponentArray(all) === false) return false;
 	if (any && isValidComponentArray(any) === false) return false;
 	if (none && isValidComponentArray(none) === false) return false;
+	if (optional && isValidComponentArray(optional) === false) return false;
+	if (changed && isValidComponentArray(changed) === false) return false;
+	if (added && isValidComponentArray(added) === false) return false;
+	if (removed && isValidComponentArray(removed) === false) return false;
 	// check for presence of component in multiple arrays
 	if (all && any && all.some((c) => any.includes(c))) return false;
 	if (all && none && all.some((c) => none.includes(c))) return false;
@@ -32,6 +38,7 @@ export const isValidQuerySpec = (spec: unknown): spec is QuerySpec => {
 	if (any && none && any.some((c) => none.includes(c))) return false;
 	if (none && all && none.some((c) => all.includes(c))) return false;
 	if (none && any && none.some((c) => any.includes(c))) return false;
+	if (optional && [all, any, none].some((terms) => terms && optional.some((c) => terms.includes(c)))) return false;
 	return true;
 };
 
@@ -47,6 +54,10 @@ export class Query {
 			all: queries.flatMap((q) => q.all),
 			any: queries.flatMap((q) => q.any),
 			none: queries.flatMap((q) => q.none),
+			optional: queries.flatMap((q) => q.optional),
+			changed: queries.flatMap((q) => q.changed),
+			added: queries.flatMap((q) => q.added),
+			removed: queries.flatMap((q) => q.removed),
 		});
 	}
 
@@ -59,12 +70,28 @@ export class Query {
 	/** `NOT` - Gather entities as long as they don't have these components */
 	readonly none: Readonly<Component<SchemaOrNull<any>>[]>;
 
+	/** `MAYBE` - Provide these components to systems, without affecting which entities are gathered */
+	readonly optional: Readonly<Component<SchemaOrNull<any>>[]>;
+
+	/** Only gather entities whose data for these components changed since the last run */
+	readonly changed: Readonly<Component<SchemaOrNull<any>>[]>;
+
+	/** Only gather entities which gained these components since the last run */
+	readonly added: Readonly<Component<SchemaOrNull<any>>[]>;
+
+	/** Only gather entities which lost these components since the last run */
+	readonly removed: Readonly<Component<SchemaOrNull<any>>[]>;
+
 	/**
 	 * Create a new Query
 	 * @param spec - The Query's specification object
 	 * @param spec.all - `AND` - Gather entities as long as they have all these components
 	 * @param spec.any - `OR` - Gather entities as long as they have 0...* of these components
 	 * @param spec.none - `NOT` - Gather entities as long as they don't have these components
+	 * @param spec.optional - `MAYBE` - Provide these components to systems, without affecting which entities are gathered
+	 * @param spec.changed - Only gather entities whose data for these components changed since the last run
+	 * @param spec.added - Only gather entities which gained these components since the last run
+	 * @param spec.removed - Only gather entities which lost these components since the last run
 	 * @returns A new Query object
 	 * @throws {SpecError} if the spec is invalid
 	 */
@@ -75,6 +102,15 @@ export class Query {
 		this.all = Object.freeze([...new Set(spec.all ?? [])]);
 		this.any = Object.freeze([...new Set(spec.any ?? [])]);
 		this.none = Object.freeze([...new Set(spec.none ?? [])]);
+		this.optional = Object.freeze([...new Set(spec.optional ?? [])]);
+		this.changed = Object.freeze([...new Set(spec.changed ?? [])]);
+		this.added = Object.freeze([...new Set(spec.added ?? [])]);
+		this.removed = Object.freeze([...new Set(spec.removed ?? [])]);
+	}
+
+	/** `true` if the Query has any change filters */
+	get isFiltered(): boolean {
+		return this.changed.length > 0 || this.added.length > 0 || this.removed.length > 0;
 	}
 }
 
@@ -0,0 +1,131 @@
+/**
+ * @module      RelationManager
+ * @description The RelationManager indexes the sources of each Relation's targets.
+ * @copyright   2024 the Miski authors. All rights reserved.
+ * @license     MIT
+ */
+
+import type { ComponentManager } from "../component/component-manager";
+import { NotRegisteredError } from "../errors";
+import type { Entity } from "../types";
+import type { Relation } from "./relation";
+
+/**
+ * The RelationManager keeps a reverse index (target -> sources) for each registered Relation.
+ *
+ * The forward direction (source -> target) lives in the relation's component storage.
+ */
+export class RelationManager {
+	/** The component manager which stores each source's target */
+	readonly #componentManager: ComponentManager;
+
+	/** The registered relations */
+	readonly #relations: Relation[];
+
+	/** The sources of each target, per relation */
+	readonly #sources: Map<Relation, Map<Entity, Set<Entity>>>;
+
+	/**
+	 * Create a new RelationManager
+	 * @param componentManager - The component manager the relations' components are registered with
+	 * @param relations - The relations to manage
+	 */
+	constructor(componentManager: ComponentManager, relations: Relation[]) {
+		this.#componentManager = componentManager;
+		this.#relations = [...new Set(relations)];
+		this.#sources = new Map(this.#relations.map((relation) => [relation, new Map()]));
+	}
+
+	/** @returns the registered relations */
+	get relations(): readonly Relation[] {
+		return this.#relations;
+	}
+
+	/**
+	 * Get the reverse index of a relation
+	 * @param relation - The relation
+	 * @throws {NotRegisteredError} - If the relation is not registered
+	 */
+	#getIndex(relation: Relation): Map<Entity, Set<Entity>> {
+		const index = this.#sources.get(relation);
+		if (index === undefined) {
+			throw new NotRegisteredError(`Relation "${relation?.name}" not registered.`);
+		}
+		return index;
+	}
+
+	/**
+	 * Get the target of a source entity
+	 * @param relation - The relation
+	 * @param source - The source entity
+	 * @returns The target, or `undefined` if the source has no pair
+	 * @throws {NotRegisteredError} - If the relation is not registered
+	 */
+	getTarget = (relation: Relation, source: Entity): Entity | undefined => {
+		this.#getIndex(relation);
+		if (!this.#componentManager.entityHas(relation.component, source)) return undefined;
+		return this.#componentManager.getInstance(relation.component)!.storage.partitions.target[source];
+	};
+
+	/**
+	 * Get all sources paired with a target
+	 * @param relation - The relation
+	 * @param target - The target entity
+	 * @returns An iterable of the target's sources, in the order they were paired
+	 * @throws {NotRegisteredError} - If the relation is not registered
+	 */
+	getSources = (relation: Relation, target: Entity): IterableIterator<Entity> => {
+		const sources = this.#getIndex(relation).get(target);
+		if (sources === undefined) return [][Symbol.iterator]();
+		// drop pairs whose component was removed directly
+		for (const source of sources) {
+			if (this.getTarget(relation, source) !== target) sources.delete(source);
+		}
+		return sources.values();
+	};
+
+	/**
+	 * Index a source's pair (its component must already hold the target)
+	 * @param relation - The relation
+	 * @param source - The source entity
+	 * @param target - The target entity
+	 * @throws {NotRegisteredError} - If the relation is not registered
+	 */
+	link = (relation: Relation, source: Entity, target: Entity): void => {
+		const index = this.#getIndex(relation);
+		const sources = index.get(target);
+		if (sources === undefined) {
+			index.set(target, new Set([source]));
+		} else {
+			sources.add(source);
+		}
+	};
+
+	/**
+	 * Remove a source's pair from the index (call before its component is removed)
+	 * @param relation - The relation
+	 * @param source - The source entity
+	 * @throws {NotRegisteredError} - If the relation is not registered
+	 */
+	unlink = (relation: Relation, source: Entity): void => {
+		const target = this.getTarget(relation, source);
+		if (target === undefined) return;
+		const index = this.#getIndex(relation);
+		const sources = index.get(target);
+		sources?.delete(source);
+		if (sources?.size === 0) index.delete(target);
+	};
+
+	/** Rebuild every reverse index from component storage (e.g., after a restore) */
+	rebuild = (): void => {
+		for (const [relation, index] of this.#sources) {
+			index.clear();
+			const owners = this.#componentManager.getOwners(relation.component);
+			if (owners === undefined) continue;
+			const { target } = this.#componentManager.getInstance(relation.component)!.storage.partitions;
+			for (const source of owners) {
+				this.link(relation, source, target[source]!);
+			}
+		}
+	};
+}
@@ -0,0 +1,86 @@
+/**
+ * @module      Relation
+ * @description A Relation pairs a source entity with a target entity (e.g., "child of").
+ * @copyright   2024 the Miski authors. All rights reserved.
+ * @license     MIT
+ *
+ * @example
+ * ```ts
+ * const Targets = new Relation({ name: "Targets" });
+ *
+ * // relations can then be registered with a world
+ * const world = new World({ relations: [ChildOf, Targets], ... });
+ * world.relations.add(ChildOf, child, parent);
+ * ```
+ */
+
+import { Component } from "../component/component";
+import { DEFAULT_RELATION_POLICY, RELATION_POLICIES } from "../constants";
+import { Query } from "../query/query";
+import type { RelationData, RelationPolicy, RelationSpec } from "../types";
+import { isObject, isValidName } from "../utils";
+
+/**
+ * Relation specification type guard.
+ * @param spec - The relation's specification.
+ * @returns `true` if the spec is valid, `false` otherwise
+ */
+export function isValidRelationSpec(spec: unknown): spec is RelationSpec {
+	if (isObject(spec) === false) return false;
+	const { name, onTargetDestroyed } = spec as RelationSpec;
+	if (!isValidName(name)) return false;
+	if (onTargetDestroyed !== undefined && !RELATION_POLICIES.includes(onTargetDestroyed)) return false;
+	return true;
+}
+
+/** Checks if a value is an array of Relations */
+export function isValidRelationArray(array: unknown): array is Relation[] {
+	if (!Array.isArray(array)) return false;
+	for (let i = 0; i < array.length; i++) {
+		if (!(array[i] instanceof Relation)) return false;
+	}
+	return true;
+}
+
+/**
+ * A Relation pairs a source entity with a single target entity.
+ *
+ * Each relation is backed by a component storing the source's target,
+ * so "all entities with any pair" is a regular query on the relation's component.
+ */
+export class Relation {
+	/** The component which stores each source's target */
+	readonly component: Component<RelationData>;
+
+	/** What happens to the sources when the target is destroyed */
+	readonly onTargetDestroyed: RelationPolicy;
+
+	/** A query for every source entity with a pair */
+	readonly query: Query;
+
+	/**
+	 * Create a new relation.
+	 * @param spec - The relation's specification.
+	 * @throws {TypeError} - If the spec is invalid
+	 */
+	constructor(spec: RelationSpec) {
+		if (!isValidRelationSpec(spec)) {
+			throw new TypeError("Invalid relation specification.");
+		}
+		this.component = new Component<RelationData>({ name: spec.name, schema: { target: Uint32Array } });
+		this.onTargetDestroyed = spec.onTargetDestroyed ?? DEFAULT_RELATION_POLICY;
+		this.query = new Query({ all: [this.component] });
+	}
+
+	/** The relation's label */
+	get name(): string {
+		return this.component.name;
+	}
+
+	get [Symbol.toStringTag](): string {
+		return "Relation";
+	}
+}
+
+/** The built-in hierarchy relation: destroying a parent destroys its children */
+export const ChildOf: Relation = new Relation({ name: "ChildOf", onTargetDestroyed: "cascade" });
@@ -0,0 +1,99 @@
+/**
+ * @module      ResourceManager
+ * @description The ResourceManager stores a World's singleton data by Resource key.
+ * @copyright   2024 the Miski authors. All rights reserved.
+ * @license     MIT
+ */
+
+import type { ResourceDelta } from "../types";
+import type { Resource } from "./resource";
+
+/**
+ * Deep-copy a JSON-serializable value
+ * @param value - The value to copy
+ * @returns A copy sharing no objects with `value`
+ */
+function copy(value: unknown): unknown {
+	return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/** The ResourceManager stores a World's singleton data by Resource key */
+export class ResourceManager {
+	/** The resource values by name */
+	readonly #values: Map<string, unknown> = new Map();
+
+	/**
+	 * Apply the changes listed in a delta, leaving every other resource untouched
+	 * @param delta - The removed names and the (copied) values to insert
+	 */
+	applyDelta = (delta: ResourceDelta): void => {
+		for (const name of delta.removed) {
+			this.#values.delete(name);
+		}
+		for (const name in delta.values) {
+			this.#values.set(name, copy(delta.values[name]));
+		}
+	};
+
+	/**
+	 * Get a resource's value
+	 * @param key - The resource key
+	 * @returns The value, or `undefined` if the resource has not been inserted
+	 */
+	get = <T>(key: Resource<T>): T | undefined => {
+		return this.#values.get(key.name) as T | undefined;
+	};
+
+	/**
+	 * Check if a resource has been inserted
+	 * @param key - The resource key
+	 * @returns `true` if the resource exists
+	 */
+	has = (key: Resource<any>): boolean => {
+		return this.#values.has(key.name);
+	};
+
+	/**
+	 * Insert (or replace) a resource's value
+	 * @param key - The resource key
+	 * @param value - The value
+	 */
+	insert = <T>(key: Resource<T>, value: T): void => {
+		this.#values.set(key.name, value);
+	};
+
+	/**
+	 * Remove a resource
+	 * @param key - The resource key
+	 * @returns `true` if the resource existed
+	 */
+	remove = (key: Resource<any>): boolean => {
+		return this.#values.delete(key.name);
+	};
+
+	/**
+	 * Replace every resource with copies of those from a snapshot
+	 * @param snapshot - The resource values by name, matching {@link ResourceManager.snapshot} format
+	 */
+	restore = (snapshot: Record<string, unknown>): void => {
+		this.#values.clear();
+		for (const name in snapshot) {
+			this.#values.set(name, copy(snapshot[name]));
+		}
+	};
+
+	/**
+	 * Take a snapshot of every resource
+	 *
+	 * Values are deep-copied through JSON, so they must be JSON-serializable,
+	 * and later changes to the World's resources do not affect the snapshot (or vice versa).
+	 * @returns The resource values by name
+	 */
+	snapshot = (): Record<string, unknown> => {
+		const snapshot: Record<string, unknown> = {};
+		for (const [name, value] of this.#values) {
+			snapshot[name] = copy(value);
+		}
+		return snapshot;
+	};
+}
@@ -0,0 +1,59 @@
+/**
+ * @module      Resource
+ * @description A Resource is a typed key for singleton data stored in a World, outside of entities.
+ * @copyright   2024 the Miski authors. All rights reserved.
+ * @license     MIT
+ *
+ * @example
+ * ```ts
+ * const Input = new Resource<{ x: number; y: number }>("input");
+ *
+ * world.resources.insert(Input, { x: 0, y: 0 });
+ * const input = world.resources.get(Input); // { x: number; y: number } | undefined
+ * ```
+ */
+
+import { isValidName } from "../utils";
+
+/** Resource type guard */
+export function isResource(resource: unknown): resource is Resource<unknown> {
+	return !!(resource && resource instanceof Resource);
+}
+
+/** Checks if a value is an array of Resources */
+export function isValidResourceArray(array: unknown): array is Resource<unknown>[] {
+	if (!Array.isArray(array)) return false;
+	for (let i = 0; i < array.length; i++) {
+		if (!isResource(array[i])) return false;
+	}
+	return true;
+}
+
+/**
+ * A Resource is a typed key for singleton data stored in a World.
+ *
+ * Resources are stored by name, so keys with the same name refer to the same value (e.g., after a snapshot restore).
+ */
+export class Resource<T> {
+	/** The resource's label */
+	readonly name: string;
+
+	/** Phantom field carrying the value type */
+	declare readonly __type?: T;
+
+	/**
+	 * Create a new resource key.
+	 * @param name - The resource's label
+	 * @throws {TypeError} - If the name is invalid
+	 */
+	constructor(name: string) {
+		if (!isValidName(name)) {
+			throw new TypeError("Invalid resource name.");
+		}
+		this.name = name;
+	}
+
+	get [Symbol.toStringTag](): string {
+		return "Resource";
+	}
+}
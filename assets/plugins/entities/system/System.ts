@@ -1,8 +1,17 @@
-import { $_SYSTEM_DESTROY_KEY, $_SYSTEM_INIT_KEY } from "../constants";
+import { $_SYSTEM_DESTROY_KEY, $_SYSTEM_INIT_KEY, DEFAULT_SYSTEM_PHASE, SYSTEM_PHASES } from "../constants";
 import { isObject, noop } from "../utils";
 import { Query } from "../query/query";
+import { isValidEventChannelArray, type EventChannel } from "../event/event-channel";
+import { isValidResourceArray, type Resource } from "../resource/resource";
 import { NoComponentsFoundError, SpecError } from "../errors";
-import type { SystemCallback, SystemInstance, SystemPrivateMethods, SystemSpec } from "../types";
+import type {
+	SystemCallback,
+	SystemInstance,
+	SystemOrderingTarget,
+	SystemPhase,
+	SystemPrivateMethods,
+	SystemSpec,
+} from "../types";
 import type { World } from "../world/World";
 import { isValidName } from "../../collections/partitioned-buffer/utils";
 
@@ -28,6 +37,29 @@ export function createSystemInstance<T extends SystemCallback>(world: World, sys
 	return Object.setPrototypeOf(boundCallback, system);
 }
 
+/**
+ * Test if a value is a valid system phase
+ * @param phase The value to test
+ * @returns `true` if the value is one of {@link SYSTEM_PHASES}, `false` otherwise
+ */
+export function isSystemPhase(phase: unknown): phase is SystemPhase {
+	return (SYSTEM_PHASES as readonly unknown[]).includes(phase);
+}
+
+/**
+ * Test if a value is a valid list of systems for `before`/`after` constraints
+ * @param targets The value to test
+ * @param name The name of the system declaring the constraints
+ * @returns `true` if the value is an array of valid system names or Systems, not including `name`
+ */
+function isValidOrderingTargets(targets: unknown, name: string): targets is SystemOrderingTarget[] {
+	if (!Array.isArray(targets)) return false;
+	return targets.every((target) => {
+		const targetName = target instanceof System ? target.name : target;
+		return typeof targetName === "string" && isValidName(targetName) && targetName !== name;
+	});
+}
+
 /**
  * Test if an object is a valid system specification
  * @param spec The object to test
@@ -35,12 +67,18 @@ export function createSystemInstance<T extends SystemCallback>(world: World, sys
  */
 export function isValidSystemSpec(spec: unknown): spec is SystemSpec<any> {
 	if (isObject(spec) === false) return false;
-	const { name, query, callback, destroy, init } = spec;
+	const { name, query, callback, destroy, init, phase, before, after, resources, reads, writes } = spec;
 	if (typeof name !== "string" || !isValidName(name)) return false;
 	if (query instanceof Query === false) return false;
 	if (typeof callback !== "function") return false;
 	if (typeof destroy !== "undefined" && typeof destroy !== "function") return false;
 	if (typeof init !== "undefined" && typeof init !== "function") return false;
+	if (typeof phase !== "undefined" && !isSystemPhase(phase)) return false;
+	if (typeof before !== "undefined" && !isValidOrderingTargets(before, name)) return false;
+	if (typeof after !== "undefined" && !isValidOrderingTargets(after, name)) return false;
+	if (typeof resources !== "undefined" && !isValidResourceArray(resources)) return false;
+	if (typeof reads !== "undefined" && !isValidEventChannelArray(reads)) return false;
+	if (typeof writes !== "undefined" && !isValidEventChannelArray(writes)) return false;
 	return true;
 }
 
@@ -61,6 +99,24 @@ export class System<T extends SystemCallback> implements SystemPrivateMethods {
 	/** The core function of the system. Called when this.exec is called. */
 	readonly callback: SystemCallback;
 
+	/** The phase of `world.step()` in which the system is run */
+	readonly phase: SystemPhase;
+
+	/** The names of the systems this system must run before */
+	readonly before: readonly string[];
+
+	/** The names of the systems this system must run after */
+	readonly after: readonly string[];
+
+	/** The resources which must exist before the system is initialized */
+	readonly resources: readonly Resource<any>[];
+
+	/** The event channels this system reads, each with its own reader */
+	readonly reads: readonly EventChannel<any>[];
+
+	/** The event channels this system writes */
+	readonly writes: readonly EventChannel<any>[];
+
 	/**
 	 * Creates a new system.
 	 *
@@ -73,10 +129,28 @@ export class System<T extends SystemCallback> implements SystemPrivateMethods {
 		if (isValidSystemSpec(spec) === false) {
 			throw new SpecError("Invalid system specification");
 		}
-		const { name, query, callback, destroy = noop, init = noop } = spec;
+		const {
+			name,
+			query,
+			callback,
+			destroy = noop,
+			init = noop,
+			phase = DEFAULT_SYSTEM_PHASE,
+			before = [],
+			after = [],
+			resources = [],
+			reads = [],
+			writes = [],
+		} = spec;
 		this.name = name;
 		this.query = query;
 		this.callback = callback;
+		this.phase = phase;
+		this.before = Object.freeze(before.map((target) => (typeof target === "string" ? target : target.name)));
+		this.after = Object.freeze(after.map((target) => (typeof target === "string" ? target : target.name)));
+		this.resources = Object.freeze([...resources]);
+		this.reads = Object.freeze([...reads]);
+		this.writes = Object.freeze([...writes]);
 		this[$_SYSTEM_INIT_KEY] = init;
 		this[$_SYSTEM_DESTROY_KEY] = destroy;
 	}
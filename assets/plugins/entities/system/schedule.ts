@@ -0,0 +1,144 @@
+/**
+ * @module      Schedule
+ * @description The Schedule decides the order in which a World runs its systems.
+ * @copyright   2024 the Miski authors. All rights reserved.
+ * @license     MIT
+ */
+
+import { SYSTEM_PHASES } from "../constants";
+import { SpecError } from "../errors";
+import type { SystemInstance, SystemSchedule } from "../types";
+import type { System } from "./System";
+
+/**
+ * Create an empty schedule with one list per phase
+ * @returns A schedule with no systems
+ */
+export function createSchedule(): SystemSchedule {
+	return Object.fromEntries(SYSTEM_PHASES.map((phase) => [phase, []])) as unknown as SystemSchedule;
+}
+
+/**
+ * Find a cycle amongst the systems which could not be sorted
+ * @param edges - The `before` edges of every system
+ * @param sorted - `true` for each system which was sorted
+ * @returns The indices of the systems in the cycle, with the first index repeated at the end
+ */
+function findCycle(edges: number[][], sorted: boolean[]): number[] {
+	// every unsorted system has at least one unsorted predecessor, so walking back must revisit one
+	const predecessors = new Map<number, number>();
+	for (let from = 0; from < edges.length; from++) {
+		if (sorted[from]) continue;
+		for (const to of edges[from]!) {
+			if (!sorted[to] && !predecessors.has(to)) predecessors.set(to, from);
+		}
+	}
+	const seen = new Map<number, number>();
+	const path: number[] = [];
+	let node = sorted.indexOf(false);
+	while (!seen.has(node)) {
+		seen.set(node, path.length);
+		path.push(node);
+		node = predecessors.get(node)!;
+	}
+	const cycle = path.slice(seen.get(node)).reverse();
+	cycle.push(cycle[0]!);
+	return cycle;
+}
+
+/**
+ * Build the execution schedule for a set of system instances
+ *
+ * Each phase is topologically sorted by the systems' `before`/`after` constraints.
+ * Within a phase, systems which write an event channel also run before systems which read it,
+ * unless that would contradict the explicit constraints.
+ * Systems without a constraint between them keep their registration order.
+ * Constraints naming systems that are not in `instances` are ignored.
+ * @param instances - The system instances, in registration order
+ * @returns The system instances grouped by phase, in execution order
+ * @throws {SpecError} If a constraint contradicts the phase order, or the constraints form a cycle
+ */
+export function buildSchedule(instances: SystemInstance<any>[]): SystemSchedule {
+	const systems = instances.map((instance) => Object.getPrototypeOf(instance) as System<any>);
+	const indices = new Map<string, number>();
+	for (let i = 0; i < systems.length; i++) {
+		indices.set(systems[i]!.name, i);
+	}
+
+	// edges[a] contains b if system a must run before system b
+	const edges: number[][] = systems.map(() => []);
+	const inDegrees: number[] = systems.map(() => 0);
+	const addEdge = (from: number, to: number): void => {
+		const a = systems[from]!;
+		const b = systems[to]!;
+		const aPhase = SYSTEM_PHASES.indexOf(a.phase);
+		const bPhase = SYSTEM_PHASES.indexOf(b.phase);
+		if (aPhase > bPhase) {
+			throw new SpecError(
+				`System "${a.name}" (${a.phase}) cannot run before system "${b.name}" (${b.phase}): phase order contradicts ordering constraints`
+			);
+		}
+		// already satisfied by phase order, or already recorded
+		if (aPhase < bPhase || edges[from]!.includes(to)) return;
+		edges[from]!.push(to);
+		inDegrees[to]!++;
+	};
+	for (let i = 0; i < systems.length; i++) {
+		const { before, after } = systems[i]!;
+		for (const name of before) {
+			const target = indices.get(name);
+			if (target !== undefined) addEdge(i, target);
+		}
+		for (const name of after) {
+			const target = indices.get(name);
+			if (target !== undefined) addEdge(target, i);
+		}
+	}
+
+	/** `true` if system `to` is (transitively) constrained to run after system `from` */
+	const reaches = (from: number, to: number): boolean => {
+		const stack = [from];
+		const visited = new Set<number>();
+		while (stack.length > 0) {
+			const node = stack.pop()!;
+			if (node === to) return true;
+			if (visited.has(node)) continue;
+			visited.add(node);
+			stack.push(...edges[node]!);
+		}
+		return false;
+	};
+	// implicit event channel constraints: writers run before readers in the same phase
+	for (let writer = 0; writer < systems.length; writer++) {
+		for (const channel of systems[writer]!.writes) {
+			for (let reader = 0; reader < systems.length; reader++) {
+				if (reader === writer || systems[reader]!.phase !== systems[writer]!.phase) continue;
+				if (!systems[reader]!.reads.some(({ name }) => name === channel.name)) continue;
+				if (!reaches(reader, writer)) addEdge(writer, reader);
+			}
+		}
+	}
+
+	// Kahn's algorithm, always taking the earliest registered system that is ready
+	const schedule = createSchedule();
+	const sorted: boolean[] = systems.map(() => false);
+	for (let count = 0; count < systems.length; count++) {
+		let next = -1;
+		for (let i = 0; i < systems.length; i++) {
+			if (!sorted[i] && inDegrees[i] === 0) {
+				next = i;
+				break;
+			}
+		}
+		if (next === -1) {
+			const cycle = findCycle(edges, sorted).map((i) => `"${systems[i]!.name}"`);
+			throw new SpecError(`System ordering constraints form a cycle: ${cycle.join(" -> ")}`);
+		}
+		sorted[next] = true;
+		for (const target of edges[next]!) {
+			inDegrees[target]!--;
+		}
+		schedule[systems[next]!.phase].push(instances[next]!);
+	}
+	return schedule;
+}
@@ -5,30 +5,79 @@
  * @license     MIT
  */
 
-import { $_SYSTEM_DESTROY_KEY, $_SYSTEM_INIT_KEY } from "../constants";
-import { NotRegisteredError } from "../errors";
-import type { SystemCallback, SystemInstance } from "../types";
+import type { ComponentManager } from "../component/component-manager";
+import type { EventManager, EventReader } from "../event/event-manager";
+import { $_SYSTEM_DESTROY_KEY, $_SYSTEM_INIT_KEY, SYSTEM_PHASES } from "../constants";
+import { NotRegisteredError, ResourceNotFoundError } from "../errors";
+import type { SystemCallback, SystemInstance, SystemPhase, SystemSchedule } from "../types";
 import type { World } from "../world/World";
 import { createSystemInstance, type System } from "../system/System";
+import { buildSchedule, createSchedule } from "./schedule";
+
+/**
+ * Assert that every resource a system requires exists in a World
+ * @param world The world to check
+ * @param system The system to check
+ * @throws {ResourceNotFoundError} If a required resource is missing
+ */
+function assertResources(world: World, system: System<any>): void {
+	for (const resource of system.resources) {
+		if (!world.resources.has(resource)) {
+			throw new ResourceNotFoundError(`System "${system.name}" requires missing resource "${resource.name}"`);
+		}
+	}
+}
 
 /** The SystemManager is responsible for creating, registering, initializing, and destroying systems. */
 export class SystemManager {
 	registry: Record<string, SystemInstance<any>>;
 
+	/** Systems grouped by phase, in execution order */
+	readonly schedule: SystemSchedule;
+
+	/** Tracks the change tick */
+	readonly #componentManager: ComponentManager;
+
+	/** Tracks the running system's event readers */
+	readonly #eventManager: EventManager;
+
+	/** The change tick each system instance last ran at */
+	readonly #lastRun: Map<SystemInstance<any>, number>;
+
+	/** Each system instance's readers for the event channels it reads, by channel name */
+	readonly #readers: Map<SystemInstance<any>, Map<string, EventReader<unknown>>>;
+
 	/**
 	 * Create a new SystemManager
 	 * @param world The world to create the system manager in
+	 * @param componentManager The world's component manager, which tracks the change tick
+	 * @param eventManager The world's event manager, which provides each system's event readers
 	 */
-	constructor(world: World) {
+	constructor(world: World, componentManager: ComponentManager, eventManager: EventManager) {
 		this.registry = {};
+		this.schedule = createSchedule();
+		this.#componentManager = componentManager;
+		this.#eventManager = eventManager;
+		this.#lastRun = new Map();
+		this.#readers = new Map();
 
 		this.create = <T extends SystemCallback>(system: System<T>): SystemInstance<T> => {
 			const existing = this.get(system);
 			if (existing) {
 				return existing;
 			}
+			if (world.state === "initialized") {
+				assertResources(world, system);
+			}
 			const instance = createSystemInstance(world, system);
+			// build the schedule first so that a system with contradictory constraints is never registered
+			const schedule = buildSchedule([...Object.values(this.registry), instance as SystemInstance<any>]);
 			this.registry[system.name] = instance as SystemInstance<any>;
+			this.#readers.set(
+				instance as SystemInstance<any>,
+				new Map(system.reads.map((channel) => [channel.name, eventManager.reader(channel)]))
+			);
+			this.#setSchedule(schedule);
 			return instance as SystemInstance<T>;
 		};
 
@@ -45,6 +94,9 @@ export class SystemManager {
 			const proto = Object.getPrototypeOf(instance);
 			await proto[$_SYSTEM_DESTROY_KEY](world);
 			delete this.registry[proto.name];
+			this.#lastRun.delete(instance);
+			this.#readers.delete(instance);
+			this.#setSchedule(buildSchedule(Object.values(this.registry)));
 		};
 
 		this.destroyAll = async (): Promise<void> => {
@@ -60,6 +112,8 @@ export class SystemManager {
 	 * @param system The system to create the instance of
 	 * @returns The created system instance
 	 * @throws {NoComponentsFoundError} If the system query returns no components
+	 * @throws {SpecError} If the system's `before`/`after` constraints cannot be satisfied
+	 * @throws {ResourceNotFoundError} If the World is initialized and a resource the system requires is missing
 	 */
 	create: <T extends SystemCallback>(system: System<T>) => SystemInstance<T>;
 
@@ -99,11 +153,50 @@ export class SystemManager {
 		return this.get(system) !== undefined;
 	};
 
+	/**
+	 * Replace the contents of the schedule, keeping the schedule object itself
+	 * @param schedule The new schedule
+	 */
+	#setSchedule(schedule: SystemSchedule): void {
+		for (const phase of SYSTEM_PHASES) {
+			this.schedule[phase] = schedule[phase];
+		}
+	}
+
+	/**
+	 * Run every system scheduled in a phase, in order
+	 *
+	 * While a system runs, `getChanged` returns the entities changed since that system last ran,
+	 * and `world.events.read` returns the events that system has not yet seen.
+	 * @param phase The phase to run
+	 * @param args The arguments to pass to each system after its components and entities
+	 */
+	run = (phase: SystemPhase, ...args: unknown[]): void => {
+		const instances = this.schedule[phase];
+		for (let i = 0; i < instances.length; i++) {
+			const instance = instances[i]!;
+			const tick = this.#componentManager.beginSystem(this.#lastRun.get(instance) ?? 0);
+			this.#eventManager.beginSystem(Object.getPrototypeOf(instance).name, this.#readers.get(instance)!);
+			try {
+				(instance as (...args: unknown[]) => unknown)(...args);
+			} finally {
+				this.#eventManager.endSystem();
+				this.#componentManager.endSystem();
+				this.#lastRun.set(instance, tick);
+			}
+		}
+	};
+
 	/**
 	 * Initialize all systems
 	 * @param world The world to initialize the systems in
+	 * @throws {ResourceNotFoundError} If a resource any system requires is missing
 	 */
 	init = async (world: World): Promise<void> => {
+		// check every system before any system is initialized
+		for (const instance of Object.values(this.registry)) {
+			assertResources(world, Object.getPrototypeOf(instance));
+		}
 		for (const instance of Object.values(this.registry)) {
 			const system: System<any> = Object.getPrototypeOf(instance);
 			await system[$_SYSTEM_INIT_KEY](world);
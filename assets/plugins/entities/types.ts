@@ -14,8 +14,19 @@ import type { Archetype } from "./archetype/archetype";
 import type { ComponentInstance } from "./component/component-instance";
 import type { Component } from "./component/component";
 import type { StorageProxy } from "./component/storage-proxy";
-import type { $_PARTITION_KEY, $_SYSTEM_DESTROY_KEY, $_SYSTEM_INIT_KEY } from "./constants";
+import type {
+	$_PARTITION_KEY,
+	$_SYSTEM_DESTROY_KEY,
+	$_SYSTEM_INIT_KEY,
+	RELATION_POLICIES,
+	SYSTEM_PHASES,
+} from "./constants";
+import type { EventChannel } from "./event/event-channel";
+import type { EventReader } from "./event/event-manager";
+import type { Prefab } from "./prefab/prefab";
 import type { Query } from "./query/query";
+import type { Relation } from "./relation/relation";
+import type { Resource } from "./resource/resource";
 import { System } from "./system/System";
 import { World } from "./world/World";
 
@@ -35,6 +46,12 @@ export type StorageProxySpec<T> = {
 	storage: PartitionStorage<T>;
 	/** The capacity of the World */
 	capacity: number;
+	/** The component's observers, notified after each write which changes a value */
+	observers: ComponentObserver[];
+	/** The tick of each entity's last change */
+	ticks: Float64Array;
+	/** Get the World's current change tick */
+	tick: () => number;
 };
 
 /**
@@ -58,6 +75,124 @@ export type EntityManagerSerialized = {
 	entities: string;
 };
 
+/** A serializable snapshot of an EntityManager */
+export type EntitySnapshot = {
+	/** The capacity of the EntityManager */
+	capacity: number;
+	/** The entity pool's Uint32 words (bit set = entity is active) */
+	pool: number[];
+	/** The generation of each entity index, or `null` if handles are not generational */
+	generations?: number[] | null;
+};
+
+/** A serializable snapshot of one component's state in a World */
+export type ComponentSnapshot = {
+	/** The component's name */
+	name: string;
+	/** The owner bitset's Uint32 words (bit set = entity has the component) */
+	owners: number[];
+	/** The changed bitset's Uint32 words (bit set = entity's data changed) */
+	changed: number[];
+	/**
+	 * The value of each schema property for each owner, in ascending entity order (`null` for tags).
+	 *
+	 * Values which JSON cannot represent (i.e., `NaN`, `Infinity`) become `null`, and are restored as `NaN`.
+	 */
+	data: Record<string, (number | null)[]> | null;
+};
+
+/** A serializable snapshot of an Archetype's membership */
+export type ArchetypeSnapshot = {
+	/** The ids of the Archetype's components */
+	components: number[];
+	/** The entities in the Archetype */
+	entities: number[];
+};
+
+/** A serializable snapshot of a registered Query */
+export type QuerySnapshot = {
+	/** The QueryInstance's id */
+	id: string;
+	/** The names of the Query's `all` components */
+	all: string[];
+	/** The names of the Query's `any` components */
+	any: string[];
+	/** The names of the Query's `none` components */
+	none: string[];
+	/** The names of the Query's `optional` components */
+	optional?: string[];
+};
+
+/**
+ * A complete, serializable snapshot of a World's state
+ * @see {@link World.snapshot}
+ * @see {@link World.fromSnapshot}
+ */
+export type WorldSnapshot = {
+	/** The snapshot format version */
+	version: number;
+	/** The entity pool */
+	entities: EntitySnapshot;
+	/** The state of each component, in registration (id) order */
+	components: ComponentSnapshot[];
+	/** The membership of every non-root, non-empty Archetype */
+	archetypes: ArchetypeSnapshot[];
+	/** The registered Queries */
+	queries: QuerySnapshot[];
+	/** The World's resources by name, if included */
+	resources?: Record<string, unknown>;
+};
+
+/** The new values of one schema property between two snapshots */
+export type ComponentFieldDelta = {
+	/** The entities whose value changed, in ascending order */
+	entities: number[];
+	/** The new value for each entity (`null` for values which JSON cannot represent) */
+	values: (number | null)[];
+};
+
+/** The changes to one component between two snapshots */
+export type ComponentDelta = {
+	/** The component's name */
+	name: string;
+	/** The entities which gained the component */
+	added: number[];
+	/** The surviving entities which lost the component */
+	removed: number[];
+	/** The changed values of each schema property, including all values of added entities (`null` for tags) */
+	data: Record<string, ComponentFieldDelta> | null;
+};
+
+/** The changes to the World's resources between two snapshots */
+export type ResourceDelta = {
+	/** The new value of each resource which was inserted or changed, by name */
+	values: Record<string, unknown>;
+	/** The names of the resources which were removed */
+	removed: string[];
+};
+
+/**
+ * The changes between two World snapshots
+ * @see {@link World.delta}
+ * @see {@link World.applyDelta}
+ */
+export type WorldDelta = {
+	/** The snapshot format version */
+	version: number;
+	/** The capacity of the Worlds */
+	capacity: number;
+	/** The entities which were created */
+	created: number[];
+	/** The entities which were destroyed */
+	destroyed: number[];
+	/** The entity indices whose generation changed, and their new generation (`null` if handles are not generational) */
+	generations: ComponentFieldDelta | null;
+	/** The changes to each component which changed */
+	components: ComponentDelta[];
+	/** The changes to the resources, if the target snapshot included them */
+	resources?: ResourceDelta;
+};
+
 /** The specification for an Archetype */
 export type ArchetypeSpec = {
 	/** The bitfield of the Archetype */
@@ -79,6 +214,52 @@ export type TypedComponentRecord<T> = {
 	[K in keyof T]: T[K] extends SchemaOrNull ? ComponentInstance<T[K]> : never;
 };
 
+/**
+ * A component to add to an entity, optionally paired with its initial data
+ * @example `[position, { x: 1, y: 2 }]`
+ * @example `isAlive`
+ */
+export type ComponentEntry =
+	| Component<SchemaOrNull<any>>
+	| string
+	| [Component<SchemaOrNull<any>> | string, Record<string, number>?];
+
+/**
+ * Lifecycle hooks for one component in a World, called with the entity's index
+ * - `onAdd` is called after the component is added to an entity
+ * - `onRemove` is called before the component is removed from an entity (including when it is destroyed),
+ *   so its data is still readable
+ * - `onSet` is called after the component's data is written through its proxy or `setEntityData`
+ */
+export type ComponentObserver = {
+	onAdd?: (entity: Entity) => void;
+	onRemove?: (entity: Entity) => void;
+	onSet?: (entity: Entity) => void;
+};
+
+/** The specification for a Prefab */
+export type PrefabSpec = {
+	/** The prefab's label */
+	name: string;
+	/** The prefab to inherit components and data from */
+	extends?: Prefab | null;
+	/** The prefab's components, each optionally paired with its default data (overriding the parent's) */
+	components: ComponentEntry[];
+};
+
+/**
+ * The plain JSON format of a Prefab, naming components by their registered names
+ * @example `{ "name": "orc", "extends": "enemy", "components": { "health": { "value": 80 }, "hostile": null } }`
+ */
+export type PrefabJSON = {
+	/** The prefab's label */
+	name: string;
+	/** The name of the prefab to inherit from */
+	extends?: string | null;
+	/** The default data of each component by name (`null` for tags or no defaults) */
+	components: Record<string, Record<string, number> | null>;
+};
+
 /** A Schema or null (null = tag component) */
 export type SchemaOrNull<T = any> = Schema<T> | null;
 
@@ -122,6 +303,8 @@ export type ComponentInstanceSpec<T extends SchemaOrNull<T>> = {
 	storage: T extends Schema<infer U> ? PartitionStorage<U> : null;
 	/** The Component of the ComponentInstance */
 	type: Component<T>;
+	/** The entities which own the Component in the World */
+	owners: BooleanArray;
 };
 
 /** The Query constructor specification */
@@ -132,8 +315,51 @@ export type QuerySpec = {
 	any?: Component<SchemaOrNull<any>>[];
 	/** `NOT` - Gather entities as long as they don't have these components */
 	none?: Component<SchemaOrNull<any>>[];
+	/** `MAYBE` - Provide these components to systems, without affecting which entities are gathered */
+	optional?: Component<SchemaOrNull<any>>[];
+	/** Only gather entities whose data for these components changed since the last run */
+	changed?: Component<SchemaOrNull<any>>[];
+	/** Only gather entities which gained these components since the last run */
+	added?: Component<SchemaOrNull<any>>[];
+	/** Only gather entities which lost these components since the last run */
+	removed?: Component<SchemaOrNull<any>>[];
 };
 
+/**
+ * A change filter of a Query
+ *
+ * "The last run" is the last run of the current system, or (outside of systems) the last refresh.
+ */
+export type QueryFilter = "added" | "changed" | "removed";
+
+/**
+ * Callbacks for the entities entering and exiting a query, run at refresh time with the entity's index
+ *
+ * Component data is still readable in `onExit` (with table storage, from a copy of the row the entity exited).
+ */
+export type QuerySubscriber = {
+	onEnter?: (entity: Entity) => void;
+	onExit?: (entity: Entity) => void;
+};
+
+/**
+ * The storage partitions of a chunk's components, by component name
+ *
+ * Each partition is indexed by Entity, e.g. `columns.position.x[entities[i]]`.
+ * With `"table"` storage, each column is packed and indexed by row instead, e.g. `columns.position.x[i]`.
+ */
+export type ChunkColumns = Record<string, Record<string, TypedArray>>;
+
+/** A copy of the values in an Entity's table row, by component id and property name */
+export type TableRow = Map<number, Record<string, number>>;
+
+/**
+ * A function called once per matching Archetype
+ * @param entities - A dense list of the Archetype's Entities, which must not be modified
+ * @param columns - The storage partitions of the query's components which the Archetype has
+ */
+export type ChunkCallback = (entities: Uint32Array, columns: ChunkColumns) => void;
+
 export type QueryInstance = {
 	/** A BooleanArray for the AND match criteria */
 	and: BooleanArray;
@@ -159,6 +385,8 @@ export type QueryInstance = {
 	or: BooleanArray;
 	/** A BooleanArray for the NOT match criteria */
 	not: BooleanArray;
+	/** A BooleanArray for the optional components, which do not affect matching */
+	optional: BooleanArray;
 };
 
 /** A Record of SystemInstances by System name */
@@ -187,6 +415,31 @@ export type SystemCallback = (
  */
 export type SystemFunctionArgs<T extends SystemCallback> = ParametersExceptFirstTwo<T>;
 
+/** The phase of a World step in which a System is run */
+export type SystemPhase = (typeof SYSTEM_PHASES)[number];
+
+/** What happens to the sources of a Relation when its target is destroyed */
+export type RelationPolicy = (typeof RELATION_POLICIES)[number];
+
+/** The specification for a Relation */
+export type RelationSpec = {
+	/** The relation's label (also the name of its component) */
+	name: string;
+	/** What happens to the sources when the target is destroyed [default = "remove"] */
+	onTargetDestroyed?: RelationPolicy;
+};
+
+/** The schema of a Relation's component: the target of each source */
+export type RelationData = {
+	target: Uint32ArrayConstructor;
+};
+
+/** A System, or the name of a System, used in `before`/`after` ordering constraints */
+export type SystemOrderingTarget = string | System<any>;
+
+/** SystemInstances grouped by phase, in execution order */
+export type SystemSchedule = Record<SystemPhase, SystemInstance<any, any>[]>;
+
 /**
  * The specification for a System.
  * @param T The callback's type
@@ -199,6 +452,21 @@ export type SystemSpec<T extends SystemCallback> = {
 	query: Query;
 	/** The core function of the system. Called when this.exec is called. */
 	callback: T;
+	/** The phase of `world.step()` in which the system is run [default = "update"] */
+	phase?: SystemPhase;
+	/** Systems in the same phase which this system must run before */
+	before?: SystemOrderingTarget[];
+	/** Systems in the same phase which this system must run after */
+	after?: SystemOrderingTarget[];
+	/** The resources which must exist before the system is initialized */
+	resources?: Resource<any>[];
+	/**
+	 * The event channels this system reads with `world.events.read`, each with its own reader;
+	 * writers of a channel run before its readers in the same phase
+	 */
+	reads?: EventChannel<any>[];
+	/** The event channels this system writes */
+	writes?: EventChannel<any>[];
 	/** The function to call when the system is initialized. */
 	init?: (world: World) => void | Promise<void>;
 	/** The function to call when the system is destroyed. */
@@ -228,18 +496,88 @@ export type SystemInstance<
 	TArgs extends ParametersExceptFirstTwo<T> = ParametersExceptFirstTwo<T>
 > = (...args: TArgs) => TReturn;
 
+/**
+ * Where a World stores component data
+ *
+ * - `"partitioned"`: one partition per property, sized to the World's capacity and indexed by Entity
+ * - `"table"`: packed columns per archetype, with a row per Entity which is swap-removed as the Entity moves
+ */
+export type StorageMode = "partitioned" | "table";
+
+/**
+ * How much a World's capacity grows by when it runs out of entities
+ *
+ * - `"double"`: double the capacity
+ * - `"max"`: grow straight to the policy's `max`
+ * - a number: add that many entities
+ */
+export type GrowthStep = "double" | "max" | number;
+
+/** How a World's capacity grows when `world.entities.create()` finds no free entity */
+export type GrowthPolicy = {
+	/** How much the capacity grows by each time */
+	step: GrowthStep;
+	/**
+	 * The capacity the World will not grow beyond (required when `step` is `"max"`, or the World is generational)
+	 * [default = EntityManager.MAX_CAPACITY]
+	 *
+	 * In generational mode, entity handles reserve enough bits for `max` entities, leaving the rest for the generation.
+	 */
+	max?: number;
+};
+
 /** The specification for a World */
 export type WorldSpec = {
-	/** The maximum capacity of any World */
+	/** The number of entities the World can hold (fixed, unless the World has a `growth` policy) */
 	capacity: number;
 	/** The components to register in the World */
 	components: Component<SchemaOrNull<any>>[];
+	/**
+	 * The duration of one fixed step (e.g., `1 / 60`).
+	 *
+	 * When omitted, "fixedUpdate" systems run once per `world.step()` with the frame's `dt`.
+	 */
+	fixedTimestep?: number;
+	/** The maximum number of fixed steps to run in one `world.step()` [default = 5] */
+	maxFixedSteps?: number;
+	/**
+	 * Encode a generation in each entity handle returned by `world.entities.create()` [default = false].
+	 *
+	 * Stale handles (i.e., to destroyed entities) are then rejected with an `EntityNotFoundError`.
+	 */
+	generational?: boolean;
+	/**
+	 * Grow the World's capacity when it runs out of entities, instead of `world.entities.create()` returning `undefined`.
+	 *
+	 * Growing reallocates component storage, so TypedArrays taken from `storage.partitions` must be fetched again
+	 * (see `world.entities.onGrow`). ComponentInstances, their storage objects and StorageProxies stay valid.
+	 */
+	growth?: GrowthPolicy;
+	/** The relations to register in the World (their components are registered automatically) */
+	relations?: Relation[];
+	/**
+	 * Where component data is stored [default = "partitioned"].
+	 *
+	 * With `"table"`, chunks are iterated without jumping around memory,
+	 * at the cost of copying an Entity's data each time it changes archetype.
+	 */
+	storage?: StorageMode;
 };
 
 /** The state of a World */
 export type WorldState = "uninitialized" | "initialized" | "destroyed" | "error";
 
+/** The cached transitions from an archetype to its neighbours, for debugging */
+export type ArchetypeEdges = {
+	/** The archetype ID reached by adding each component, by component name */
+	add: Record<string, string>;
+	/** The archetype ID reached by removing each component, by component name */
+	remove: Record<string, string>;
+};
+
 export type WorldArchetypeAPI = {
+	/** Get the cached transitions from an archetype, or `undefined` if the archetype does not exist */
+	getEdges(id: string): ArchetypeEdges | undefined;
 	/** Get the archetype ID of an entity */
 	getEntityArchetype: (entity: Entity) => string | undefined;
 	/** Check if an entity is in the root (empty) archetype */
@@ -256,14 +594,32 @@ export type WorldArchetypeAPI = {
 
 /** The public Entity management API */
 export type WorldEntityAPI = {
-	/** The capacity of the EntityManager */
+	/** The number of entities the World can currently hold */
 	readonly capacity: number;
+	/**
+	 * Copy an entity and all of its component data into a new entity
+	 * @param entity - The entity to clone
+	 * @param target - The World to create the clone in (default: this World), which must register the same components
+	 * @returns The new entity, or `undefined` if no entities are available
+	 */
+	clone(entity: Entity, target?: World): Entity | undefined;
 	/** Create an entity */
 	create(): Entity | undefined;
 	/** Destroy an entity */
 	destroy(entity: Entity): void;
+	/**
+	 * Create an entity from a prefab with a single archetype move
+	 * @param prefab - The prefab to instantiate
+	 * @param overrides - Components (and data) to add or override on top of the prefab's
+	 * @returns The new entity, or `undefined` if no entities are available
+	 */
+	spawn(prefab: Prefab, overrides?: ComponentEntry[]): Entity | undefined;
 	/** Get an iterable of all active entities */
 	getActive(startEntity?: Entity, endEntity?: Entity): IterableIterator<Entity>;
+	/** Get the current handle for an entity index (the index itself if handles are not generational) */
+	getHandle(index: Entity): Entity;
+	/** Get the storage index of an entity handle, throwing an `EntityNotFoundError` if it is stale */
+	getIndex(entity: Entity): Entity;
 	/** Get the number of active entities */
 	getActiveCount(): number;
 	/** Get the number of available entities */
@@ -272,6 +628,14 @@ export type WorldEntityAPI = {
 	isActive(entity: Entity): boolean;
 	/** Check if an entity is valid */
 	isEntity(entity: Entity): boolean;
+	/**
+	 * Listen for the World growing its capacity
+	 *
+	 * Listeners run after storage has been reallocated, so TypedArrays taken from `storage.partitions` can be fetched again.
+	 * @param listener - Called with the new and previous capacity
+	 * @returns A function which removes the listener
+	 */
+	onGrow(listener: (capacity: number, previous: number) => void): () => void;
 	/** Query for entities */
 	query(query: Query): IterableIterator<Entity>;
 };
@@ -294,6 +658,13 @@ export type WorldComponentAPI = {
 		entity: Entity,
 		data?: { [k in keyof T]: number }
 	): void;
+	/**
+	 * Add several components to an entity, moving it to its new archetype only once
+	 * @param entity - The entity to add the components to
+	 * @param entries - The components to add, each optionally paired with its initial data
+	 * @throws {NotRegisteredError} - If any of the components are not registered (no components are added)
+	 */
+	addManyToEntity(entity: Entity, entries: ComponentEntry[]): void;
 	/**
 	 * Check if an entity has a component
 	 * @param component - The component to check for
@@ -343,12 +714,29 @@ export type WorldComponentAPI = {
 	 * @returns An iterable of entities or `undefined` if the component is not registered
 	 */
 	getOwners<T extends SchemaOrNull<T>>(component: Component<T> | string): IterableIterator<Entity> | undefined;
+	/**
+	 * Observe a component's lifecycle in this World
+	 * @param component - The component to observe
+	 * @param observer - The hooks to call
+	 * @returns A function which removes the observer
+	 * @throws {NotRegisteredError} - If the component is not registered
+	 */
+	observe<T extends SchemaOrNull<T>>(component: Component<T> | string, observer: ComponentObserver): () => void;
 	/**
 	 * Query for components
 	 * @param query - The query to use
 	 * @returns A Record of ComponentInstances by Component name
 	 */
 	query(query: Query): Record<string, ComponentInstance<SchemaOrNull<any>>>;
+	/**
+	 * Register a component after the World has been created
+	 *
+	 * The component gets the next id, so existing components, archetypes and queries are unaffected.
+	 * @param component - The component to register
+	 * @returns The component's instance (the existing instance, if the component is already registered)
+	 * @throws {SpecError} - If a different component with the same name is already registered
+	 */
+	register<T extends SchemaOrNull<T>>(component: Component<T>): ComponentInstance<T>;
 	/**
 	 * Remove a component from an entity
 	 * @param component - The component to remove
@@ -356,6 +744,13 @@ export type WorldComponentAPI = {
 	 * @throws {NotRegisteredError} - If the component is not registered
 	 */
 	removeFromEntity<T extends SchemaOrNull<T>>(component: Component<T> | string, entity: Entity): void;
+	/**
+	 * Remove several components from an entity, moving it to its new archetype only once
+	 * @param entity - The entity to remove the components from
+	 * @param components - The components to remove
+	 * @throws {NotRegisteredError} - If any of the components are not registered (no components are removed)
+	 */
+	removeManyFromEntity(entity: Entity, components: (Component<SchemaOrNull<any>> | string)[]): void;
 	/**
 	 * Set the data of a component for an entity
 	 * @param component - The component to set the data for
@@ -372,10 +767,75 @@ export type WorldComponentAPI = {
 /** A function that gets ComponentInstances from an array of Components */
 export type ComponentInstanceGetter = WorldComponentAPI["getInstances"];
 
+/** The public Query management API */
+export type WorldQueryAPI = {
+	/**
+	 * Subscribe to the entities entering and exiting a query
+	 *
+	 * Entities which already match the query are not reported.
+	 * @param query - The query to subscribe to
+	 * @param subscriber - The callbacks to run at refresh time
+	 * @returns A function which removes the subscription
+	 */
+	subscribe(query: Query, subscriber: QuerySubscriber): () => void;
+	/**
+	 * Call a function once per Archetype matching a query, with its Entities and their storage partitions
+	 *
+	 * For hot loops without proxies or allocations. Change filters are not applied,
+	 * and structural changes should be deferred (e.g., with `world.commands`) until iteration is done.
+	 * @param query - The query to iterate
+	 * @param callback - The function to call per Archetype
+	 */
+	forEachChunk(query: Query, callback: ChunkCallback): void;
+};
+
+/** The public Relation management API */
+export type WorldRelationAPI = {
+	/**
+	 * Pair a source entity with a target entity, replacing any existing target
+	 * @param relation - The relation
+	 * @param source - The source entity (e.g., the child)
+	 * @param target - The target entity (e.g., the parent)
+	 */
+	add(relation: Relation, source: Entity, target: Entity): void;
+	/** Get the target of a source entity, or `undefined` if the source has no pair */
+	getTarget(relation: Relation, source: Entity): Entity | undefined;
+	/** Get all sources paired with a target (e.g., all children of a parent) */
+	getSources(relation: Relation, target: Entity): IterableIterator<Entity>;
+	/** Check if a source entity has a pair (optionally with a specific target) */
+	has(relation: Relation, source: Entity, target?: Entity): boolean;
+	/** Remove a source entity's pair */
+	remove(relation: Relation, source: Entity): void;
+};
+
+/** The public Event management API */
+export type WorldEventAPI = {
+	/** Iterate the events of a channel which the running system has not yet seen (the system must declare it in `reads`) */
+	read<T>(channel: EventChannel<T>): IterableIterator<T>;
+	/** Create a reader for a channel, starting at the oldest buffered event */
+	reader<T>(channel: EventChannel<T>): EventReader<T>;
+	/** Send an event to every reader of a channel; events expire after two frames */
+	send<T>(channel: EventChannel<T>, event: T): void;
+};
+
+/** The public Resource management API */
+export type WorldResourceAPI = {
+	/** Get a resource's value, or `undefined` if it has not been inserted */
+	get<T>(key: Resource<T>): T | undefined;
+	/** Check if a resource has been inserted */
+	has(key: Resource<any>): boolean;
+	/** Insert (or replace) a resource's value */
+	insert<T>(key: Resource<T>, value: T): void;
+	/** Remove a resource, returning `true` if it existed */
+	remove(key: Resource<any>): boolean;
+};
+
 /** The public System management API */
 export type WorldSystemAPI = {
 	/** The systems by name */
 	readonly registry: SystemRecord;
+	/** The systems by phase, in the order they are run by `world.step()` */
+	readonly schedule: Readonly<SystemSchedule>;
 	/** Create a system */
 	create<T extends SystemCallback>(system: System<T>): SystemInstance<T>;
 	/** Get a system instance */
@@ -386,6 +846,27 @@ export type WorldSystemAPI = {
 	destroy<T extends SystemCallback>(system: System<T> | string): Promise<void>;
 };
 
+/** The public, read-only World time API */
+export type WorldTimeAPI = {
+	/**
+	 * How far the World is between the last fixed step and the next, in the range [0, 1).
+	 *
+	 * Render systems use this to interpolate between fixed step states.
+	 * Always `1` when the World has no `fixedTimestep`.
+	 */
+	readonly alpha: number;
+	/** The `dt` of the current (or last) `world.step()` */
+	readonly delta: number;
+	/** The sum of every `dt` passed to `world.step()` */
+	readonly elapsed: number;
+	/** The duration of one fixed step, or `null` if the World has no `fixedTimestep` */
+	readonly fixedTimestep: number | null;
+	/** The number of `world.step()` calls */
+	readonly frame: number;
+	/** The number of fixed steps run */
+	readonly tick: number;
+};
+
 /** The result of a World API constructor */
 export type WorldAPIResult = {
 	/** The Archetype API */
@@ -394,6 +875,10 @@ export type WorldAPIResult = {
 	components: WorldComponentAPI;
 	/** The Entity API */
 	entities: WorldEntityAPI;
+	/** The Relation API */
+	relations: WorldRelationAPI;
 	/** The System API */
 	systems: WorldSystemAPI;
+	/** The Time API */
+	time: WorldTimeAPI;
 };
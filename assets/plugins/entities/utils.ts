@@ -8,6 +8,7 @@
 import { isValidName as isValidNamePartitionedBuffer } from "../collections/partitioned-buffer/utils";
 
 import { INVALID_NAMES, MAX_UINT32, MIN_UINT32 } from "./constants";
+import type { TypedArray, TypedArrayConstructor } from "./types";
 
 /** @returns a random string (base-36) */
 export function randomString(): string {
@@ -56,6 +57,20 @@ export function numberArrayFromString(str: string): number[] {
 		.map((n) => parseInt(n, 10));
 }
 
+/**
+ * Copy a TypedArray into a new, longer TypedArray
+ * @param array The array to copy
+ * @param length The length of the new array
+ * @param fill The value of the new elements [default = 0]
+ * @returns The new array
+ */
+export function growTypedArray<T extends TypedArray>(array: T, length: number, fill: number = 0): T {
+	const grown = new (array.constructor as TypedArrayConstructor)(length) as T;
+	grown.set(array);
+	if (fill !== 0) grown.fill(fill, array.length);
+	return grown;
+}
+
 /**
  * A no-operation function
  * @returns {void}
@@ -8,29 +8,63 @@
 import { BooleanArray } from "../../collections/boolean-array/BooleanArray";
 
 import type {
+  ArchetypeEdges,
+  ComponentEntry,
   Entity,
+  GrowthPolicy,
+  PartitionStorage,
   QueryInstance,
   SchemaOrNull,
+  StorageMode,
   WorldAPIResult,
   WorldArchetypeAPI,
   WorldComponentAPI,
+  WorldDelta,
   WorldEntityAPI,
+  WorldEventAPI,
+  WorldQueryAPI,
+  WorldRelationAPI,
+  WorldResourceAPI,
   WorldSpec,
   WorldState,
   WorldSystemAPI,
+  WorldSnapshot,
+  WorldTimeAPI,
 } from "../../entities/types";
 import { Archetype } from "../archetype/archetype";
 import { ArchetypeManager } from "../archetype/archetype-manager";
+import { CommandBuffer } from "../command/command-buffer";
 import { Component } from "../component/component";
 import { ComponentInstance } from "../component/component-instance";
 import { ComponentManager } from "../component/component-manager";
-import { $_ARCHETYPE_KEY, $_QUERY_KEY, VERSION } from "../constants";
+import {
+  $_ARCHETYPE_KEY,
+  $_QUERY_KEY,
+  DEFAULT_MAX_FIXED_STEPS,
+  SNAPSHOT_VERSION,
+  SYSTEM_PHASES,
+  VERSION,
+} from "../constants";
 import { EntityManager } from "../entity/entity-manager";
-import { NotRegisteredError, SpecError, WorldStateError } from "../errors";
+import { EntityNotFoundError, NotRegisteredError, SpecError, WorldStateError } from "../errors";
+import { EventManager } from "../event/event-manager";
 import { Query } from "../query/query";
+import type { Prefab } from "../prefab/prefab";
 import { QueryManager } from "../query/query-manager";
+import type { Relation } from "../relation/relation";
+import { RelationManager } from "../relation/relation-manager";
+import { ResourceManager } from "../resource/resource-manager";
 import { SystemManager } from "../system/system-manager";
-import { assertWorldState, isValidWorldSpec } from "./utils";
+import {
+  archetypesFromOwners,
+  copyOwnerValues,
+  decodeBinarySnapshot,
+  encodeBinarySnapshot,
+  restorePartitions,
+} from "./binary-snapshot";
+import { Clock } from "./clock";
+import { diffSnapshots } from "./delta";
+import { assertWorldState, getGrownCapacity, isValidWorldSpec } from "./utils";
 
 /** The World is the central context in which all Entities and Components exist. */
 export class World {
@@ -42,8 +76,11 @@ export class World {
   static #constructAPIs(world: World): WorldAPIResult {
     // ARCHETYPES API
 
-    /** Cache of entities visited by queryArchetypeEntities */
-    const visitedArchetypeEntities = new BooleanArray(world.#entityManager.capacity);
+    /** Cache of entities visited by queryArchetypeEntities (replaced when the world grows) */
+    let visitedArchetypeEntities = new BooleanArray(world.#entityManager.capacity);
+    world.#growListeners.push((capacity) => {
+      visitedArchetypeEntities = new BooleanArray(capacity);
+    });
 
     /**
      * Get the components for a query
@@ -79,20 +116,38 @@ export class World {
 
     // COMPONENTS API
 
+    /** Resolve an entity handle to its storage index, rejecting stale handles */
+    const getIndex = world.#entityManager.getIndex;
+
     /**
      * Convenience function to get a component from a string or Component
      * @throws {NotRegisteredError} - If the component is not registered
      */
     const getComponentByName = <T extends SchemaOrNull<T>>(component: string | Component<T>): Component<T> => {
       if (typeof component === "string") {
-        component = world.#componentManager.getInstance(component)?.type as Component<T>;
-        if (component === undefined) {
+        const type = world.#componentManager.getInstance(component)?.type as Component<T> | undefined;
+        if (type === undefined) {
           throw new NotRegisteredError(`Component ${component} not registered in world`);
         }
+        return type;
       }
       return component;
     };
 
+    /**
+     * Convenience function to get a component's instance from a string or Component
+     * @throws {NotRegisteredError} - If the component is not registered
+     */
+    const getInstanceOrThrow = <T extends SchemaOrNull<T>>(component: string | Component<T>): ComponentInstance<T> => {
+      const instance = world.#componentManager.getInstance(component);
+      if (!instance) {
+        throw new NotRegisteredError(
+          `Component ${typeof component === "string" ? `"${component}"` : component.name} not registered.`,
+        );
+      }
+      return instance;
+    };
+
     /**
      * Add a component to an entity
      * @param component - The component to add
@@ -105,12 +160,19 @@ export class World {
       entity: Entity,
       data?: { [k in keyof T]: number } | undefined,
     ): void => {
-      component = getComponentByName(component);
-      const instances = world.#componentManager.addToEntity(component, entity, data);
-      world.#archetypeManager.update(entity, instances);
+      // resolved first, so an unregistered component leaves the entity untouched
+      const instance = getInstanceOrThrow(component);
+      component = instance.type;
+      entity = getIndex(entity);
+      const owned = world.#componentManager.entityHas(component, entity);
+      // moved first, so the data is written to the entity's new table row
+      world.#archetypeManager.addComponents(entity, [instance]);
+      world.#componentManager.addToEntity(component, entity, data);
       if (world.#state === "initialized") {
         world.refresh(true);
       }
+      if (!owned) world.#componentManager.notify("onAdd", component, entity);
+      else if (data) world.#componentManager.notify("onSet", component, entity);
     };
 
     /**
@@ -124,8 +186,66 @@ export class World {
       entity: Entity,
     ): void => {
       component = getComponentByName(component);
-      const instances = world.#componentManager.removeFromEntity(component, entity);
-      world.#archetypeManager.update(entity, instances);
+      entity = getIndex(entity);
+      // notified first, so the component's data is still readable
+      if (world.#componentManager.entityHas(component, entity)) {
+        world.#componentManager.notify("onRemove", component, entity);
+      }
+      const instance = world.#componentManager.getInstance(component);
+      world.#componentManager.removeFromEntity(component, entity);
+      if (instance) world.#archetypeManager.removeComponents(entity, [instance]);
+      if (world.#state === "initialized") {
+        world.refresh(true);
+      }
+    };
+
+    /**
+     * Add several components to an entity with a single archetype move
+     * @param entity - The entity to add the components to
+     * @param entries - The components to add, each optionally paired with its initial data
+     * @throws {NotRegisteredError} - If any of the components are not registered
+     */
+    const addManyComponentsToEntity = (entity: Entity, entries: ComponentEntry[]): void => {
+      entity = getIndex(entity);
+      // resolved first, so an unregistered component leaves the entity untouched
+      const instances = entries.map((entry) => getInstanceOrThrow(Array.isArray(entry) ? entry[0] : entry));
+      const added: Component<any>[] = [];
+      const written: Component<any>[] = [];
+      for (let i = 0; i < entries.length; i++) {
+        const entry = entries[i];
+        const { type } = instances[i]!;
+        if (added.includes(type)) continue;
+        if (!world.#componentManager.entityHas(type, entity)) added.push(type);
+        else if (Array.isArray(entry) && entry[1] && !written.includes(type)) written.push(type);
+      }
+      // moved first, so the data is written to the entity's new table row
+      world.#archetypeManager.addComponents(entity, instances);
+      world.#componentManager.addManyToEntity(entity, entries);
+      if (world.#state === "initialized") {
+        world.refresh(true);
+      }
+      for (const type of added) world.#componentManager.notify("onAdd", type, entity);
+      for (const type of written) world.#componentManager.notify("onSet", type, entity);
+    };
+
+    /**
+     * Remove several components from an entity with a single archetype move
+     * @param entity - The entity to remove the components from
+     * @param components - The components to remove
+     * @throws {NotRegisteredError} - If any of the components are not registered
+     */
+    const removeManyComponentsFromEntity = (entity: Entity, components: (string | Component<any>)[]): void => {
+      components = components.map(getComponentByName);
+      entity = getIndex(entity);
+      // notified first, so the components' data is still readable
+      for (const component of new Set(components)) {
+        if (world.#componentManager.entityHas(component, entity)) {
+          world.#componentManager.notify("onRemove", component, entity);
+        }
+      }
+      const instances = components.flatMap((component) => world.#componentManager.getInstance(component) ?? []);
+      world.#componentManager.removeManyFromEntity(entity, components);
+      world.#archetypeManager.removeComponents(entity, instances);
       if (world.#state === "initialized") {
         world.refresh(true);
       }
@@ -177,9 +297,43 @@ export class World {
       visitedArchetypeEntities.clear();
     }).bind(world);
 
+    /**
+     * Get the cached transitions from an archetype
+     * @param id - The archetype's ID
+     * @returns The archetype IDs reached by adding or removing each component, or `undefined` if the archetype does not exist
+     */
+    const getArchetypeEdges = (id: string): ArchetypeEdges | undefined => {
+      const archetype = world.#archetypeManager.registry.get(id);
+      if (archetype === undefined) return undefined;
+      const instances = Object.values(world.#componentManager.registry);
+      const edges: ArchetypeEdges = { add: {}, remove: {} };
+      for (const operation of ["add", "remove"] as const) {
+        for (const [componentId, neighbour] of archetype.getEdges(operation)) {
+          edges[operation][instances[componentId]!.name] = neighbour.id;
+        }
+      }
+      return edges;
+    };
+
+    /**
+     * Register a component after the world has been created
+     * @param component - The component to register
+     * @returns The component's instance
+     * @throws {SpecError} - If a different component with the same name is already registered
+     */
+    const registerComponent = <T extends SchemaOrNull<T>>(component: Component<T>): ComponentInstance<T> => {
+      if (world.#componentManager.isRegistered(component)) return world.#componentManager.getInstance(component)!;
+      const instance = world.#componentManager.register(component);
+      const count = world.#componentManager.count;
+      world.#archetypeManager.widen(count);
+      world.#queryManager.widen(count, component);
+      return instance;
+    };
+
     const archetypes: WorldArchetypeAPI = {
-      getEntityArchetype: (entity: Entity) => world.#archetypeManager.getEntityArchetype(entity)?.id,
-      isEntityInRoot: world.#archetypeManager.isEntityInRoot,
+      getEdges: getArchetypeEdges,
+      getEntityArchetype: (entity: Entity) => world.#archetypeManager.getEntityArchetype(getIndex(entity))?.id,
+      isEntityInRoot: (entity: Entity) => world.#archetypeManager.isEntityInRoot(getIndex(entity)),
       queryComponents: queryArchetypeComponents,
       queryEntities: queryArchetypeEntities,
       queryEntered: queryEnteredEntities,
@@ -187,19 +341,27 @@ export class World {
     };
 
     const components: WorldComponentAPI = {
-      count: world.#componentManager.count,
+      get count() {
+        return world.#componentManager.count;
+      },
       registry: world.#componentManager.registry,
       addToEntity: addComponentToEntity,
-      entityHas: world.#componentManager.entityHas,
+      addManyToEntity: addManyComponentsToEntity,
+      entityHas: (component, entity) => world.#componentManager.entityHas(component, getIndex(entity)),
       getChanged: world.#componentManager.getChanged,
-      getEntityData: world.#componentManager.getEntityData,
+      getEntityData: (component, entity) => world.#componentManager.getEntityData(component, getIndex(entity)),
       getInstance: world.#componentManager.getInstance,
       getInstances: world.#componentManager.getInstances,
       getOwners: world.#componentManager.getOwners,
       isRegistered: world.#componentManager.isRegistered,
+      observe: world.#componentManager.observe,
       query: world.#queryManager.components,
+      register: registerComponent,
       removeFromEntity: removeComponentFromEntity,
-      setEntityData: world.#componentManager.setEntityData,
+      removeManyFromEntity: removeManyComponentsFromEntity,
+      setEntityData: (component, entity, value) => {
+        world.#componentManager.setEntityData(component, getIndex(entity), value);
+      },
     };
 
     /**
@@ -207,66 +369,360 @@ export class World {
      * @param entity - The entity to destroy
      */
     const destroyEntity = (entity: Entity): void => {
+      const index = getIndex(entity);
+      // Unpair the entity first, so cyclic cascades terminate
+      for (const relation of world.#relationManager.relations) {
+        world.#relationManager.unlink(relation, index);
+      }
+      // Apply each relation's policy to the entities paired with this one
+      for (const relation of world.#relationManager.relations) {
+        for (const source of [...world.#relationManager.getSources(relation, index)]) {
+          if (relation.onTargetDestroyed === "cascade") {
+            if (world.#entityManager.isActive(source)) destroyEntity(source);
+          } else {
+            removeRelation(relation, source);
+          }
+        }
+      }
       // Get all components for this entity before destroying
-      const archetype = world.#archetypeManager.getEntityArchetype(entity);
+      const archetype = world.#archetypeManager.getEntityArchetype(index);
       if (archetype) {
-        // Remove all components from the entity
+        // Notify observers while the data is still readable, then remove all components from the entity
+        for (const componentInstance of archetype.components) {
+          world.#componentManager.notify("onRemove", componentInstance.type, index);
+        }
         for (const componentInstance of archetype.components) {
-          world.#componentManager.removeFromEntity(componentInstance.type, entity);
+          world.#componentManager.removeFromEntity(componentInstance.type, index);
         }
       }
       // Reset the entity to the root archetype
-      world.#archetypeManager.reset(entity);
+      world.#archetypeManager.reset(index);
       // Destroy the entity itself
       world.#entityManager.destroy(entity);
       // Invalidate query caches
       world.#queryManager.invalidate();
     };
 
+    /**
+     * Create an entity, growing the world first if it is full and has a growth policy
+     * @returns The new entity, or `undefined` if no entities are available
+     */
+    const createEntity = (): Entity | undefined => {
+      const entity = world.#entityManager.create();
+      if (entity !== undefined || world.#growth === null) return entity;
+      const capacity = getGrownCapacity(world.#growth, world.#entityManager.capacity);
+      if (capacity === world.#entityManager.capacity) return undefined;
+      world.#grow(capacity);
+      return world.#entityManager.create();
+    };
+
+    /**
+     * Listen for the world growing its capacity
+     * @param listener - Called with the new and previous capacity
+     * @returns A function which removes the listener
+     */
+    const onGrow = (listener: (capacity: number, previous: number) => void): (() => void) => {
+      world.#growListeners.push(listener);
+      return () => {
+        const index = world.#growListeners.indexOf(listener);
+        if (index !== -1) world.#growListeners.splice(index, 1);
+      };
+    };
+
+    /**
+     * Create an entity from a prefab with a single archetype move
+     * @param prefab - The prefab to instantiate
+     * @param overrides - Components (and data) to add or override on top of the prefab's
+     * @returns The new entity, or `undefined` if no entities are available
+     * @throws {NotRegisteredError} - If any of the components are not registered
+     */
+    const spawnEntity = (prefab: Prefab, overrides: ComponentEntry[] = []): Entity | undefined => {
+      // merge the prefab chain and overrides per component, later data overriding earlier
+      const merged = new Map<Component<any>, Record<string, number>>();
+      for (const entry of [...prefab.entries(), ...overrides]) {
+        const [component, data] = Array.isArray(entry) ? entry : [entry];
+        const type = getComponentByName(component);
+        if (!world.#componentManager.isRegistered(type)) {
+          throw new NotRegisteredError(`Component "${type.name}" not registered.`);
+        }
+        merged.set(type, { ...merged.get(type), ...data });
+      }
+      const entity = createEntity();
+      if (entity === undefined) return undefined;
+      addManyComponentsToEntity(entity, [...merged]);
+      return entity;
+    };
+
+    /**
+     * Copy an entity and all of its component data
+     * @param entity - The entity to clone
+     * @param target - The World to create the clone in (default: this World), which must register the same components
+     * @returns The new entity, or `undefined` if no entities are available in `target`
+     * @throws {EntityNotFoundError} - If the entity is not active, or is a stale handle
+     * @throws {NotRegisteredError} - If any of the entity's components are not registered in `target`
+     */
+    const cloneEntity = (entity: Entity, target: World = world): Entity | undefined => {
+      const index = getIndex(entity);
+      if (!world.#entityManager.isActive(index)) {
+        throw new EntityNotFoundError(`Entity ${entity} not found`);
+      }
+      // relation targets are entities of this World, so pairs are only cloned within it
+      const relationComponents = new Set(world.#relationManager.relations.map(({ component }) => component));
+      const entries: ComponentEntry[] = [];
+      for (const { name, type } of world.#componentManager.getEntityComponents(index)) {
+        if (target !== world && relationComponents.has(type as Component<any>)) continue;
+        if (!target.#componentManager.isRegistered(name)) {
+          throw new NotRegisteredError(`Component "${name}" not registered.`);
+        }
+        const data = world.#componentManager.getEntityData(type, index);
+        entries.push(data ? [name, data] : name);
+      }
+      const clone = target.entities.create();
+      if (clone === undefined) return undefined;
+      target.components.addManyToEntity(clone, entries);
+      if (target === world) {
+        const cloneIndex = getIndex(clone);
+        for (const relation of world.#relationManager.relations) {
+          const pairTarget = world.#relationManager.getTarget(relation, cloneIndex);
+          if (pairTarget !== undefined) world.#relationManager.link(relation, cloneIndex, pairTarget);
+        }
+      }
+      return clone;
+    };
+
+    // RELATIONS API
+
+    /**
+     * Pair a source entity with a target entity, replacing any existing target
+     * @param relation - The relation
+     * @param source - The source entity
+     * @param target - The target entity
+     * @throws {NotRegisteredError} - If the relation is not registered
+     * @throws {EntityNotFoundError} - If either entity is stale, or the target is not active
+     */
+    const addRelation = (relation: Relation, source: Entity, target: Entity): void => {
+      source = getIndex(source);
+      target = getIndex(target);
+      if (!world.#entityManager.isActive(target)) {
+        throw new EntityNotFoundError(`Entity ${target} not found`);
+      }
+      if (world.#relationManager.getTarget(relation, source) === undefined) {
+        addComponentToEntity(relation.component, source, { target });
+      } else {
+        world.#relationManager.unlink(relation, source);
+        const { proxy } = world.#componentManager.getInstance(relation.component)!;
+        proxy.entity = source;
+        proxy.target = target;
+      }
+      world.#relationManager.link(relation, source, target);
+    };
+
+    /**
+     * Remove a source entity's pair
+     * @param relation - The relation
+     * @param source - The source entity
+     * @throws {NotRegisteredError} - If the relation is not registered
+     */
+    const removeRelation = (relation: Relation, source: Entity): void => {
+      source = getIndex(source);
+      if (world.#relationManager.getTarget(relation, source) === undefined) return;
+      world.#relationManager.unlink(relation, source);
+      removeComponentFromEntity(relation.component, source);
+    };
+
+    const relations: WorldRelationAPI = {
+      add: addRelation,
+      getSources: (relation: Relation, target: Entity) => world.#relationManager.getSources(relation, getIndex(target)),
+      getTarget: (relation: Relation, source: Entity) => world.#relationManager.getTarget(relation, getIndex(source)),
+      has: (relation: Relation, source: Entity, target?: Entity) => {
+        const current = world.#relationManager.getTarget(relation, getIndex(source));
+        return current !== undefined && (target === undefined || current === getIndex(target));
+      },
+      remove: removeRelation,
+    };
+
     const entities: WorldEntityAPI = {
-      capacity: world.#entityManager.capacity,
-      create: world.#entityManager.create,
+      get capacity() {
+        return world.#entityManager.capacity;
+      },
+      clone: cloneEntity,
+      create: createEntity,
       destroy: destroyEntity,
-      getActive: world.#entityManager.getActive,
+      getActive: (startEntity?: Entity, endEntity?: Entity) => world.#entityManager.getActive(startEntity, endEntity),
       getActiveCount: world.#entityManager.getActiveCount,
       getAvailableCount: world.#entityManager.getAvailableCount,
+      getHandle: world.#entityManager.getHandle,
+      getIndex,
       isActive: world.#entityManager.isActive,
       isEntity: world.#entityManager.isEntity,
+      onGrow,
       query: world.#queryManager.entities,
+      spawn: spawnEntity,
     };
 
     const systems: WorldSystemAPI = {
       registry: world.#systemManager.registry,
+      schedule: world.#systemManager.schedule,
       create: world.#systemManager.create,
       get: world.#systemManager.get,
       has: world.#systemManager.has,
       destroy: world.#systemManager.destroy,
     };
 
-    return { archetypes, components, entities, systems };
+    const time: WorldTimeAPI = {
+      get alpha() {
+        return world.#clock.alpha;
+      },
+      get delta() {
+        return world.#clock.delta;
+      },
+      get elapsed() {
+        return world.#clock.elapsed;
+      },
+      get fixedTimestep() {
+        return world.#clock.fixedTimestep;
+      },
+      get frame() {
+        return world.#clock.frame;
+      },
+      get tick() {
+        return world.#clock.tick;
+      },
+    };
+
+    return { archetypes, components, entities, relations, systems, time };
   }
 
   /** Miski library version */
   static readonly version: string = VERSION;
 
+  /**
+   * Create a new World from a snapshot
+   *
+   * The World is returned uninitialized so that systems can be registered before calling `world.init()`.
+   * @param spec - The specification to create the World with (must match the snapshotted World's capacity and components)
+   * @param snapshot - The snapshot to restore, as returned by {@link World.snapshot}
+   * @returns A new World with the snapshot's entities, components, archetypes, queries and (if included) resources
+   * @throws {SpecError} - If the spec is invalid, or the snapshot's version or components do not match
+   * @throws {RangeError} - If the snapshot's capacity does not match the spec's capacity (and the spec's growth policy cannot reach it)
+   */
+  static fromSnapshot(spec: WorldSpec, snapshot: WorldSnapshot): World {
+    if (snapshot?.version !== SNAPSHOT_VERSION) {
+      throw new SpecError(`Unsupported snapshot version: ${snapshot?.version} (expected ${SNAPSHOT_VERSION})`);
+    }
+    const world = new World(spec);
+    world.#growToFit(snapshot.entities.capacity);
+    world.#entityManager.restore(snapshot.entities);
+    // archetypes first, so table storage has a row for each entity's data
+    world.#archetypeManager.restore(snapshot.archetypes, Object.values(world.#componentManager.registry));
+    world.#componentManager.restore(snapshot.components);
+    world.#queryManager.restore(snapshot.queries, world);
+    world.#relationManager.rebuild();
+    if (snapshot.resources) world.#resourceManager.restore(snapshot.resources);
+    world.#restored = true;
+    return world;
+  }
+
+  /**
+   * Create a new World from a binary snapshot
+   *
+   * Archetype membership is rebuilt from component ownership. Queries are not stored and are re-registered on first use.
+   * The World is returned uninitialized so that systems can be registered before calling `world.init()`.
+   * @param spec - The specification to create the World with (must match the snapshotted World's capacity and components)
+   * @param snapshot - The snapshot bytes, as returned by {@link World.toBinary}
+   * @returns A new World with the snapshot's entities, components and archetypes
+   * @throws {SpecError} - If the spec is invalid, or the snapshot is malformed or does not match the spec
+   * @throws {RangeError} - If the snapshot's capacity does not match the spec's capacity (and the spec's growth policy cannot reach it)
+   */
+  static fromBinary(spec: WorldSpec, snapshot: Uint8Array | ArrayBuffer): World {
+    const { capacity, pool, generations, components, bytes } = decodeBinarySnapshot(snapshot);
+    const world = new World(spec);
+    world.#growToFit(capacity);
+    world.#entityManager.restore({
+      capacity,
+      pool: Array.from(pool),
+      generations: generations && Array.from(generations),
+    });
+    world.#componentManager.restore(
+      components.map(({ name, owners, changed }) => ({
+        name,
+        owners: Array.from(owners),
+        changed: Array.from(changed),
+        data: null,
+      })),
+    );
+    const instances = Object.values(world.#componentManager.registry);
+    // archetypes first, so table storage has a row for each entity's data
+    world.#archetypeManager.restore(
+      archetypesFromOwners(
+        capacity,
+        components.map(({ owners }) => owners),
+      ),
+      instances,
+    );
+    for (let i = 0; i < instances.length; i++) {
+      const instance = instances[i]!;
+      const entry = components[i]!;
+      if (entry.isTag !== instance.type.isTag || entry.isSparse !== (instance.type.maxEntities !== null)) {
+        throw new SpecError(`Snapshot component "${entry.name}" does not match the world's component`);
+      }
+      const storage = instance.storage as PartitionStorage<any> | null;
+      if (!storage) continue;
+      if (spec.storage === "table") {
+        const partitions = copyOwnerValues(capacity, [], storage.partitions);
+        restorePartitions(entry, bytes, capacity, partitions);
+        copyOwnerValues(capacity, entry.owners, partitions, storage.partitions);
+      } else {
+        restorePartitions(entry, bytes, capacity, storage.partitions);
+      }
+    }
+    world.#relationManager.rebuild();
+    world.#restored = true;
+    return world;
+  }
+
   /** Handles groupings of components */
   #archetypeManager: ArchetypeManager;
 
+  /** Handles frame time and fixed stepping */
+  #clock: Clock;
+
   /** Handles component registration and allocation */
   #componentManager: ComponentManager;
 
   /** Handles entity creation and destruction */
   #entityManager: EntityManager;
 
+  /** Handles double buffered event channels */
+  #eventManager: EventManager;
+
   /** Handles groupings of entities */
   #queryManager: QueryManager;
 
+  /** Handles the reverse index of relation pairs */
+  #relationManager: RelationManager;
+
+  /** Handles singleton data */
+  #resourceManager: ResourceManager;
+
   /** Handles system creation and destruction */
   #systemManager: SystemManager;
 
   /** The World's current state */
   #state: WorldState;
 
+  /** Where component data is stored */
+  #storage: StorageMode;
+
+  /** How the World's capacity grows when it runs out of entities, or `null` if it is fixed */
+  #growth: GrowthPolicy | null;
+
+  /** Called after the World grows its capacity */
+  #growListeners: ((capacity: number, previous: number) => void)[] = [];
+
+  /** `true` if the World was created by {@link World.fromSnapshot} */
+  #restored: boolean = false;
+
   /** The promise that resolves when the World is ready */
   #initPromise: Promise<WorldState>;
 
@@ -282,9 +738,27 @@ export class World {
   /** Component Management API */
   readonly components: WorldComponentAPI;
 
+  /** Typed event channels between systems */
+  readonly events: WorldEventAPI;
+
+  /** Query Management API */
+  readonly queries: WorldQueryAPI;
+
+  /** Relation Management API */
+  readonly relations: WorldRelationAPI;
+
+  /** Singleton data outside of entities */
+  readonly resources: WorldResourceAPI;
+
   /** System Management API */
   readonly systems: WorldSystemAPI;
 
+  /** Frame and fixed step timing */
+  readonly time: WorldTimeAPI;
+
+  /** Deferred structural changes, played back after each phase of `world.step()` (placeholders resolve until the next step) */
+  readonly commands: CommandBuffer;
+
   /** Get an archetype by its ID */
   readonly [$_ARCHETYPE_KEY]: (id: string) => Archetype | undefined;
 
@@ -307,27 +781,63 @@ export class World {
     });
 
     // Internal managers
-    const { capacity, components } = spec;
-    this.#entityManager = new EntityManager(capacity);
-    this.#componentManager = new ComponentManager(capacity, components);
+    const { capacity, generational = false, growth = null, relations = [], storage = "partitioned" } = spec;
+    this.#storage = storage;
+    this.#growth = growth;
+    // relations are backed by components, which are registered after the spec's own
+    const components = [...spec.components];
+    for (const relation of relations) {
+      if (!components.includes(relation.component)) components.push(relation.component);
+    }
+    // generational handles reserve enough index bits for the largest capacity the world can grow to
+    const maxCapacity = growth ? growth.max ?? EntityManager.MAX_CAPACITY : capacity;
+    this.#entityManager = new EntityManager(capacity, undefined, generational, maxCapacity);
+    this.#componentManager = new ComponentManager(capacity, components, storage);
+    this.#relationManager = new RelationManager(this.#componentManager, relations);
+    this.#resourceManager = new ResourceManager();
+    this.#eventManager = new EventManager();
 
-    this.#archetypeManager = new ArchetypeManager(capacity, components.length);
+    this.#archetypeManager = new ArchetypeManager(capacity, components.length, storage);
     this[$_ARCHETYPE_KEY] = (id: string) => this.#archetypeManager.registry.get(id);
 
     // Wire up archetype manager for optimized component lookups
     this.#componentManager.setArchetypeManager(this.#archetypeManager);
 
-    this.#queryManager = new QueryManager(this, capacity);
+    this.#queryManager = new QueryManager(this, capacity, this.#componentManager);
+    // subscribers read the data of exited entities, which tables would otherwise have swap-removed
+    this.#archetypeManager.keepExited = () => this.#queryManager.subscriptions.size > 0;
     this[$_QUERY_KEY] = () => [...this.#queryManager.instancesByID.values()];
 
-    this.#systemManager = new SystemManager(this);
+    this.#systemManager = new SystemManager(this, this.#componentManager, this.#eventManager);
+
+    const { fixedTimestep = null, maxFixedSteps = DEFAULT_MAX_FIXED_STEPS } = spec;
+    this.#clock = new Clock(fixedTimestep, maxFixedSteps);
 
     // Public APIs
     const APIs: WorldAPIResult = World.#constructAPIs(this);
     this.archetypes = APIs.archetypes;
     this.components = APIs.components;
     this.entities = APIs.entities;
+    this.events = {
+      read: this.#eventManager.read,
+      reader: this.#eventManager.reader,
+      send: this.#eventManager.send,
+    };
+    this.queries = {
+      forEachChunk: this.#queryManager.forEachChunk,
+      subscribe: this.#queryManager.subscribe,
+    };
+    this.relations = APIs.relations;
+    this.resources = {
+      get: this.#resourceManager.get,
+      has: this.#resourceManager.has,
+      insert: this.#resourceManager.insert,
+      remove: this.#resourceManager.remove,
+    };
     this.systems = APIs.systems;
+    this.time = APIs.time;
+
+    this.commands = new CommandBuffer();
   }
 
   /** The World's current state */
@@ -341,13 +851,14 @@ export class World {
    */
   async init(): Promise<void> {
     assertWorldState("uninitialized", this.#state);
-    // TODO: ensure everything is in its correct initial state - however, fromJSON world's shouldn't set everything to initial??
     try {
+      // leaves restored entities in their archetypes
       this.#archetypeManager.init();
       await this.#systemManager.init(this);
       this.#state = "initialized";
       this.#initResolver?.("initialized");
-      this.refresh();
+      // keep the changed state of a restored World for its first frame
+      this.refresh(this.#restored);
       assertWorldState("initialized", this.#state);
     } catch (error) {
       this.#state = "error";
@@ -382,14 +893,215 @@ export class World {
     }
   }
 
+  /**
+   * Take a complete, serializable snapshot of the World's state
+   *
+   * The snapshot is a plain object which can be passed to `JSON.stringify()`.
+   * Restore it with {@link World.fromSnapshot}.
+   * @param includeResources - Include the World's resources, which must then be JSON-serializable (default `false`)
+   * @returns The entity pool, component ownership, changed state and data, archetype membership and registered queries
+   */
+  snapshot(includeResources: boolean = false): WorldSnapshot {
+    const snapshot: WorldSnapshot = {
+      version: SNAPSHOT_VERSION,
+      entities: this.#entityManager.snapshot(),
+      components: this.#componentManager.snapshot(),
+      archetypes: this.#archetypeManager.snapshot(),
+      queries: this.#queryManager.snapshot(),
+    };
+    if (includeResources) snapshot.resources = this.#resourceManager.snapshot();
+    return snapshot;
+  }
+
+  /**
+   * Apply a delta to move the World forward
+   *
+   * Destroys and creates entities, removes and adds components, then writes changed values (marking them as changed).
+   * Resources the delta lists are removed or replaced (with copies); the others are left untouched.
+   * @param delta - The delta to apply, as returned by {@link World.delta}
+   * @returns this
+   * @throws {SpecError} - If the delta's version is unsupported
+   * @throws {RangeError} - If the delta's capacity does not match the World's capacity (and its growth policy cannot reach it)
+   * @throws {SpecError} - If the delta has entity generations and the World is not generational
+   * @throws {NotRegisteredError} - If the delta references a component which is not registered in the World
+   */
+  applyDelta(delta: WorldDelta): this {
+    if (delta?.version !== SNAPSHOT_VERSION) {
+      throw new SpecError(`Unsupported snapshot version: ${delta?.version} (expected ${SNAPSHOT_VERSION})`);
+    }
+    this.#growToFit(delta.capacity);
+    if (delta.capacity !== this.#entityManager.capacity) {
+      throw new RangeError(`Delta capacity mismatch: ${delta.capacity} !== ${this.#entityManager.capacity}`);
+    }
+    if (delta.generations && !this.#entityManager.generational) {
+      throw new SpecError("Delta has entity generations but the World is not generational");
+    }
+    // resolve every component before changing anything
+    const instances = delta.components.map(({ name }) => {
+      const instance = this.#componentManager.getInstance<any>(name);
+      if (!instance) {
+        throw new NotRegisteredError(`Component "${name}" not registered.`);
+      }
+      return instance;
+    });
+
+    for (const entity of delta.destroyed) {
+      this.entities.destroy(entity as Entity);
+    }
+    if (delta.created.length > 0 || delta.generations) {
+      const snapshot = this.#entityManager.snapshot();
+      const { pool, generations } = snapshot;
+      for (const entity of delta.created) {
+        pool[entity >>> 5] = (pool[entity >>> 5]! | (1 << (entity & 31))) >>> 0;
+      }
+      if (delta.generations && generations) {
+        const { entities, values } = delta.generations;
+        for (let i = 0; i < entities.length; i++) {
+          generations[entities[i]!] = values[i]!;
+        }
+      }
+      this.#entityManager.restore(snapshot);
+    }
+
+    // batch structural changes per entity so each moves archetype once
+    const removals = new Map<Entity, Component<any>[]>();
+    const additions = new Map<Entity, Component<any>[]>();
+    for (let i = 0; i < instances.length; i++) {
+      const { type } = instances[i]!;
+      const { added, removed } = delta.components[i]!;
+      for (const entity of removed) {
+        removals.get(entity as Entity)?.push(type) ?? removals.set(entity as Entity, [type]);
+      }
+      for (const entity of added) {
+        additions.get(entity as Entity)?.push(type) ?? additions.set(entity as Entity, [type]);
+      }
+    }
+    for (const [entity, components] of removals) {
+      this.components.removeManyFromEntity(entity, components);
+    }
+    for (const [entity, components] of additions) {
+      this.components.addManyToEntity(entity, components);
+    }
+
+    for (let i = 0; i < instances.length; i++) {
+      const { proxy } = instances[i]!;
+      const { data } = delta.components[i]!;
+      if (!proxy || !data) continue;
+      for (const key in data) {
+        const { entities, values } = data[key]!;
+        for (let j = 0; j < entities.length; j++) {
+          proxy.entity = entities[j] as Entity;
+          proxy[key] = values[j] ?? Number.NaN;
+        }
+      }
+    }
+    this.#relationManager.rebuild();
+
+    if (delta.resources) this.#resourceManager.applyDelta(delta.resources);
+    return this;
+  }
+
+  /**
+   * Compute the changes between a snapshot and the World (or another snapshot)
+   *
+   * With `changedOnly`, values are only compared for entities marked as changed in `target`
+   * (i.e., changed since the World was last refreshed), which is much cheaper for per-frame sync.
+   * @param base - The earlier snapshot
+   * @param target - The later snapshot (default: a snapshot of the World now)
+   * @param changedOnly - Only compare the values of changed entities (default `false`)
+   * @returns The delta which moves `base` forward to `target`
+   * @throws {SpecError} - If either snapshot's version is unsupported, or their components do not match
+   * @throws {RangeError} - If the base snapshot's capacity is larger than the target's
+   */
+  delta(base: WorldSnapshot, target: WorldSnapshot = this.snapshot(), changedOnly: boolean = false): WorldDelta {
+    return diffSnapshots(base, target, changedOnly);
+  }
+
+  /**
+   * Take a compact binary snapshot of the World's state
+   *
+   * Dense component data is copied byte-for-byte from the World's buffers.
+   * Restore it with {@link World.fromBinary}.
+   * @returns The entity pool, component ownership, changed state and data
+   */
+  toBinary(): Uint8Array {
+    const instances = Object.values(this.#componentManager.registry);
+    const { capacity, pool, generations = null } = this.#entityManager.snapshot();
+    const components = this.#componentManager.snapshot(false).map(({ name, owners, changed }, i) => {
+      const { storage, type } = instances[i]!;
+      let partitions = (storage as PartitionStorage<any> | null)?.partitions ?? null;
+      if (partitions && this.#storage === "table") partitions = copyOwnerValues(capacity, owners, partitions);
+      return {
+        name,
+        owners,
+        changed,
+        isSparse: type.maxEntities !== null,
+        partitions,
+      };
+    });
+    return encodeBinarySnapshot(capacity, pool, generations, components);
+  }
+
+  /**
+   * Advance the World by one frame
+   *
+   * Runs every registered system phase by phase (see {@link SYSTEM_PHASES}),
+   * then refreshes the World so the next frame starts with clean entered/exited and changed state.
+   * Events sent during the frame remain readable during the next frame, then expire.
+   *
+   * Systems receive `(components, entities, dt, time)`.
+   * "fixedUpdate" systems run zero or more times with `dt` set to the World's `fixedTimestep`,
+   * all other systems run once with the frame's `dt`.
+   *
+   * `world.commands` is played back after each phase (and after each fixed step),
+   * so structural changes recorded by a system are visible to the systems in later phases.
+   * Its placeholders stay resolvable for the rest of the step (and after it), until the next step begins.
+   * @param dt - The time elapsed since the previous step
+   * @throws {RangeError} - If `dt` is not a finite, non-negative number
+   * @throws {WorldStateError} - If the World has not yet been initialized, or has already been destroyed
+   */
+  step(dt: number): void {
+    assertWorldState("initialized", this.#state);
+    if (!Number.isFinite(dt) || dt < 0) {
+      throw new RangeError(`World.step: dt must be a finite, non-negative number, got ${dt}`);
+    }
+    this.commands.forget();
+    const fixedSteps = this.#clock.advance(dt);
+    const fixedDt = this.#clock.fixedTimestep ?? dt;
+    for (const phase of SYSTEM_PHASES) {
+      if (phase === "fixedUpdate") {
+        for (let i = 0; i < fixedSteps; i++) {
+          this.#systemManager.run(phase, fixedDt, this.time);
+          this.commands.playback(this);
+        }
+      } else {
+        this.#systemManager.run(phase, dt, this.time);
+        this.commands.playback(this);
+      }
+    }
+    this.refresh();
+    this.#eventManager.update();
+  }
+
   /**
    * Run routine maintenance on the World
+   *
+   * Query subscribers are notified of the entities which entered or exited their queries since the last refresh.
    * @param retainChanged - skip component refresh if true
    * @throws {WorldStateError} - If the World has not yet been initialized, or has already been destroyed
    */
   refresh(retainChanged: boolean = false): void {
     assertWorldState("initialized", this.#state);
+    const notifications: (() => void)[] = [];
     try {
+      if (this.#queryManager.subscriptions.size > 0) {
+        this.#queryManager.collect(
+          this.#archetypeManager.getMoved(),
+          (entity) =>
+            this.#entityManager.isActive(entity) ? this.#archetypeManager.getEntityArchetype(entity) : undefined,
+          notifications,
+        );
+      }
       this.#archetypeManager.refresh(this.#queryManager.instancesByID.values());
       if (!retainChanged) this.#componentManager.refresh();
       this.#queryManager.invalidate();
@@ -397,5 +1109,38 @@ export class World {
       this.#state = "error";
       throw error;
     }
+    // run once the refresh has finished, so subscribers may make structural changes
+    const exited = this.#archetypeManager.beginNotify();
+    try {
+      for (const notify of notifications) notify();
+    } finally {
+      this.#archetypeManager.endNotify(exited);
+    }
+  }
+
+  /**
+   * Grow the World's capacity, reallocating everything sized by it
+   *
+   * Existing entities, handles, component data and queries are kept.
+   * @param capacity - The new capacity
+   */
+  #grow(capacity: number): void {
+    const previous = this.#entityManager.capacity;
+    this.#entityManager.grow(capacity);
+    this.#componentManager.grow(capacity);
+    this.#archetypeManager.grow(capacity);
+    this.#queryManager.grow(capacity);
+    // copied, so listeners may remove themselves
+    for (const listener of [...this.#growListeners]) listener(capacity, previous);
+  }
+
+  /**
+   * Grow the World to a snapshot's capacity, if its growth policy allows it
+   * @param capacity - The snapshot's capacity
+   */
+  #growToFit(capacity: number): void {
+    if (this.#growth === null || capacity <= this.#entityManager.capacity) return;
+    if (capacity > (this.#growth.max ?? EntityManager.MAX_CAPACITY)) return;
+    this.#grow(capacity);
   }
 }
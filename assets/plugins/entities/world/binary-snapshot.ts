@@ -0,0 +1,429 @@
+/**
+ * @module      BinarySnapshot
+ * @description A compact binary encoding of a World's state.
+ * @copyright   2024 the Miski authors. All rights reserved.
+ * @license     MIT
+ *
+ * Layout (little-endian, offsets in bytes from the start of the snapshot):
+ * ```
+ * u32 magic ("MSKI") | u32 snapshot version | u32 capacity | u32 component count
+ * u8 length + library VERSION (padded to 4)
+ * u32[] entity pool words
+ * u32 generation count (0 or capacity) | u32[] entity generations
+ * for each component:
+ *   u8 length + name | u8 flags (1 = tag, 2 = sparse) | u8 property count
+ *   for each property: u8 length + name | u8 type | (padded to 4) u32 data offset | u32 data length
+ *   (padded to 4) u32[] owner words | u32[] changed words
+ * (padded to 8) data blocks
+ * ```
+ * Dense partitions are stored byte-for-byte as they are in the PartitionedBuffer.
+ * Sparse partitions store one value per owner, in ascending entity order.
+ */
+
+import { BooleanArray } from "../../collections/boolean-array/BooleanArray";
+import { SNAPSHOT_VERSION, VERSION } from "../constants";
+import { SpecError } from "../errors";
+import type { ArchetypeSnapshot, TypedArray, TypedArrayConstructor } from "../types";
+
+/** "MSKI" as a little-endian Uint32 */
+export const BINARY_SNAPSHOT_MAGIC = 0x494b534d;
+
+/** The TypedArray constructors a partition can use, indexed by their type code */
+const TYPED_ARRAY_CONSTRUCTORS: TypedArrayConstructor[] = [
+	Int8Array,
+	Uint8Array,
+	Uint8ClampedArray,
+	Int16Array,
+	Uint16Array,
+	Int32Array,
+	Uint32Array,
+	Float32Array,
+	Float64Array,
+];
+
+/** Component flag: the component has no schema */
+const FLAG_TAG = 1;
+
+/** Component flag: the component's partitions are sparse (`maxEntities` is set) */
+const FLAG_SPARSE = 2;
+
+/** A component's state to encode */
+export type BinarySnapshotComponent = {
+	/** The component's name */
+	name: string;
+	/** `true` if the component's partitions are sparse */
+	isSparse: boolean;
+	/** The owner bitset words */
+	owners: ArrayLike<number>;
+	/** The changed bitset words */
+	changed: ArrayLike<number>;
+	/** The component's partitions, or `null` for tags */
+	partitions: Record<string, TypedArray> | null;
+};
+
+/** A property table entry of a decoded snapshot */
+export type BinarySnapshotProperty = {
+	/** The property's name */
+	name: string;
+	/** The property's TypedArray constructor */
+	type: TypedArrayConstructor;
+	/** The offset of the property's data in the snapshot */
+	byteOffset: number;
+	/** The length of the property's data in bytes */
+	byteLength: number;
+};
+
+/** A component table entry of a decoded snapshot */
+export type BinarySnapshotComponentEntry = {
+	/** The component's name */
+	name: string;
+	/** `true` if the component has no schema */
+	isTag: boolean;
+	/** `true` if the component's partitions are sparse */
+	isSparse: boolean;
+	/** The owner bitset words */
+	owners: Uint32Array;
+	/** The changed bitset words */
+	changed: Uint32Array;
+	/** The property table */
+	properties: BinarySnapshotProperty[];
+};
+
+/** The header and tables of a binary snapshot */
+export type DecodedBinarySnapshot = {
+	/** The library version which wrote the snapshot */
+	version: string;
+	/** The World's capacity */
+	capacity: number;
+	/** The entity pool words */
+	pool: Uint32Array;
+	/** The generation of each entity index, or `null` if handles are not generational */
+	generations: Uint32Array | null;
+	/** The component table */
+	components: BinarySnapshotComponentEntry[];
+	/** The snapshot bytes, which the property table's offsets point into */
+	bytes: Uint8Array;
+};
+
+/** A little-endian byte writer which grows as needed */
+class ByteWriter {
+	#bytes: Uint8Array = new Uint8Array(1024);
+	#view: DataView = new DataView(this.#bytes.buffer);
+	offset: number = 0;
+
+	#reserve(length: number): void {
+		if (this.offset + length <= this.#bytes.byteLength) return;
+		let size = this.#bytes.byteLength * 2;
+		while (size < this.offset + length) size *= 2;
+		const bytes = new Uint8Array(size);
+		bytes.set(this.#bytes);
+		this.#bytes = bytes;
+		this.#view = new DataView(bytes.buffer);
+	}
+
+	align(alignment: number): void {
+		const padding = (alignment - (this.offset % alignment)) % alignment;
+		this.#reserve(padding);
+		this.offset += padding;
+	}
+
+	u8(value: number): void {
+		this.#reserve(1);
+		this.#view.setUint8(this.offset, value);
+		this.offset += 1;
+	}
+
+	u32(value: number): void {
+		this.#reserve(4);
+		this.#view.setUint32(this.offset, value, true);
+		this.offset += 4;
+	}
+
+	u32At(offset: number, value: number): void {
+		this.#view.setUint32(offset, value, true);
+	}
+
+	words(values: ArrayLike<number>): void {
+		for (let i = 0; i < values.length; i++) this.u32(values[i]!);
+	}
+
+	string(value: string): void {
+		this.u8(value.length);
+		for (let i = 0; i < value.length; i++) this.u8(value.charCodeAt(i));
+	}
+
+	bytes(value: Uint8Array): void {
+		this.#reserve(value.byteLength);
+		this.#bytes.set(value, this.offset);
+		this.offset += value.byteLength;
+	}
+
+	finish(): Uint8Array {
+		return this.#bytes.slice(0, this.offset);
+	}
+}
+
+/** A little-endian byte reader */
+class ByteReader {
+	readonly #view: DataView;
+	offset: number = 0;
+
+	constructor(bytes: Uint8Array) {
+		this.#view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	}
+
+	align(alignment: number): void {
+		this.offset += (alignment - (this.offset % alignment)) % alignment;
+	}
+
+	u8(): number {
+		return this.#view.getUint8(this.offset++);
+	}
+
+	u32(): number {
+		const value = this.#view.getUint32(this.offset, true);
+		this.offset += 4;
+		return value;
+	}
+
+	words(length: number): Uint32Array {
+		const result = new Uint32Array(length);
+		for (let i = 0; i < length; i++) result[i] = this.u32();
+		return result;
+	}
+
+	string(): string {
+		const length = this.u8();
+		let result = "";
+		for (let i = 0; i < length; i++) result += String.fromCharCode(this.u8());
+		return result;
+	}
+}
+
+/**
+ * Encode a World's state as a binary snapshot
+ * @param capacity - The World's capacity
+ * @param pool - The entity pool words
+ * @param generations - The generation of each entity index, or `null` if handles are not generational
+ * @param components - The state of each component, in registration (id) order
+ * @returns The snapshot bytes
+ */
+export function encodeBinarySnapshot(
+	capacity: number,
+	pool: ArrayLike<number>,
+	generations: ArrayLike<number> | null,
+	components: BinarySnapshotComponent[]
+): Uint8Array {
+	const writer = new ByteWriter();
+	writer.u32(BINARY_SNAPSHOT_MAGIC);
+	writer.u32(SNAPSHOT_VERSION);
+	writer.u32(capacity);
+	writer.u32(components.length);
+	writer.string(VERSION);
+	writer.align(4);
+	writer.words(pool);
+	writer.u32(generations?.length ?? 0);
+	writer.words(generations ?? []);
+
+	// the table is written first, with each property's data offset patched in once the data is written
+	const blocks: { patchAt: number; data: Uint8Array }[] = [];
+	for (const { name, isSparse, owners, changed, partitions } of components) {
+		writer.string(name);
+		writer.u8((partitions ? 0 : FLAG_TAG) | (isSparse ? FLAG_SPARSE : 0));
+		const entries = Object.entries(partitions ?? {});
+		writer.u8(entries.length);
+		for (const [key, array] of entries) {
+			const Ctr = array.constructor as TypedArrayConstructor;
+			let data: Uint8Array;
+			if (isSparse) {
+				// sparse partitions only hold meaningful values for owners
+				const values: number[] = [];
+				for (const entity of BooleanArray.fromUint32Array(capacity, owners).truthyIndices()) {
+					values.push(array[entity] ?? 0);
+				}
+				data = new Uint8Array(new Ctr(values).buffer);
+			} else {
+				data = new Uint8Array(array.buffer, array.byteOffset, array.byteLength);
+			}
+			writer.string(key);
+			writer.u8(TYPED_ARRAY_CONSTRUCTORS.indexOf(Ctr));
+			writer.align(4);
+			blocks.push({ patchAt: writer.offset, data });
+			writer.u32(0);
+			writer.u32(data.byteLength);
+		}
+		writer.align(4);
+		writer.words(owners);
+		writer.words(changed);
+	}
+
+	for (const { patchAt, data } of blocks) {
+		writer.align(8);
+		writer.u32At(patchAt, writer.offset);
+		writer.bytes(data);
+	}
+	return writer.finish();
+}
+
+/**
+ * Decode the header and tables of a binary snapshot
+ * @param snapshot - The snapshot bytes
+ * @returns The decoded header and tables
+ * @throws {SpecError} - If the snapshot is not a binary snapshot, or its version is not supported
+ */
+export function decodeBinarySnapshot(snapshot: Uint8Array | ArrayBuffer): DecodedBinarySnapshot {
+	const bytes = snapshot instanceof Uint8Array ? snapshot : new Uint8Array(snapshot);
+	if (bytes.byteLength < 16) {
+		throw new SpecError("Binary snapshot is too short");
+	}
+	const reader = new ByteReader(bytes);
+	if (reader.u32() !== BINARY_SNAPSHOT_MAGIC) {
+		throw new SpecError("Binary snapshot has an invalid magic number");
+	}
+	const snapshotVersion = reader.u32();
+	if (snapshotVersion !== SNAPSHOT_VERSION) {
+		throw new SpecError(`Unsupported snapshot version: ${snapshotVersion} (expected ${SNAPSHOT_VERSION})`);
+	}
+	const capacity = reader.u32();
+	const componentCount = reader.u32();
+	const version = reader.string();
+	reader.align(4);
+	const chunkCount = BooleanArray.getChunkCount(capacity);
+	const pool = reader.words(chunkCount);
+	const generationCount = reader.u32();
+	if (generationCount !== 0 && generationCount !== capacity) {
+		throw new SpecError(`Binary snapshot has ${generationCount} entity generations, expected ${capacity}`);
+	}
+	const generations = generationCount === 0 ? null : reader.words(generationCount);
+
+	const components: BinarySnapshotComponentEntry[] = [];
+	for (let i = 0; i < componentCount; i++) {
+		const name = reader.string();
+		const flags = reader.u8();
+		const propertyCount = reader.u8();
+		const properties: BinarySnapshotProperty[] = [];
+		for (let j = 0; j < propertyCount; j++) {
+			const key = reader.string();
+			const type = TYPED_ARRAY_CONSTRUCTORS[reader.u8()];
+			if (!type) {
+				throw new SpecError(`Binary snapshot property "${name}.${key}" has an unknown type`);
+			}
+			reader.align(4);
+			const byteOffset = reader.u32();
+			const byteLength = reader.u32();
+			if (byteOffset + byteLength > bytes.byteLength) {
+				throw new SpecError(`Binary snapshot property "${name}.${key}" is out of bounds`);
+			}
+			properties.push({ name: key, type, byteOffset, byteLength });
+		}
+		reader.align(4);
+		const owners = reader.words(chunkCount);
+		const changed = reader.words(chunkCount);
+		components.push({
+			name,
+			isTag: (flags & FLAG_TAG) !== 0,
+			isSparse: (flags & FLAG_SPARSE) !== 0,
+			owners,
+			changed,
+			properties,
+		});
+	}
+	return { version, capacity, pool, generations, components, bytes };
+}
+
+/**
+ * Group entities into archetypes by the components they own
+ * @param capacity - The World's capacity
+ * @param owners - The owner bitset words of each component, indexed by component id
+ * @returns The membership of every non-root archetype
+ */
+export function archetypesFromOwners(capacity: number, owners: ArrayLike<number>[]): ArchetypeSnapshot[] {
+	const archetypes = new Map<string, ArchetypeSnapshot>();
+	const bitsets = owners.map((words) => BooleanArray.fromUint32Array(capacity, words));
+	const components: number[] = [];
+	for (let entity = 0; entity < capacity; entity++) {
+		components.length = 0;
+		for (let id = 0; id < bitsets.length; id++) {
+			if (bitsets[id]!.get(entity)) components.push(id);
+		}
+		if (components.length === 0) continue;
+		const key = components.join(",");
+		let archetype = archetypes.get(key);
+		if (!archetype) {
+			archetype = { components: [...components], entities: [] };
+			archetypes.set(key, archetype);
+		}
+		archetype.entities.push(entity);
+	}
+	return [...archetypes.values()];
+}
+
+/**
+ * Copy a decoded component's data back into its partitions
+ *
+ * Dense partitions are copied byte-for-byte; sparse partitions are written per owner.
+ * @param entry - The component table entry
+ * @param bytes - The snapshot bytes
+ * @param capacity - The World's capacity
+ * @param partitions - The component's partitions
+ * @throws {SpecError} - If the entry's properties do not match the partitions
+ */
+export function restorePartitions(
+	entry: BinarySnapshotComponentEntry,
+	bytes: Uint8Array,
+	capacity: number,
+	partitions: Record<string, TypedArray>
+): void {
+	for (const { name, type, byteOffset, byteLength } of entry.properties) {
+		const target = partitions[name];
+		if (!target || target.constructor !== type) {
+			throw new SpecError(`Snapshot property "${entry.name}.${name}" does not match the component's schema`);
+		}
+		const data = bytes.subarray(byteOffset, byteOffset + byteLength);
+		if (entry.isSparse) {
+			// copy out first, as the data block is not guaranteed to be aligned for this type
+			const values = new type(data.slice().buffer);
+			let i = 0;
+			for (const entity of BooleanArray.fromUint32Array(capacity, entry.owners).truthyIndices()) {
+				target[entity] = values[i++] ?? 0;
+			}
+		} else {
+			if (byteLength !== target.byteLength) {
+				throw new SpecError(`Snapshot property "${entry.name}.${name}" is ${byteLength} bytes, expected ${target.byteLength}`);
+			}
+			new Uint8Array(target.buffer, target.byteOffset, target.byteLength).set(data);
+		}
+	}
+}
+
+/**
+ * Copy the owners' values between partitions
+ *
+ * Table storage is not backed by a buffer, so it is encoded from (and decoded into) capacity-sized copies.
+ * @param capacity - The World's capacity
+ * @param owners - The owner bitset words
+ * @param from - The partitions to copy from
+ * @param to - The partitions to copy to (default: new capacity-sized arrays of the same types)
+ * @returns The partitions copied to
+ */
+export function copyOwnerValues(
+	capacity: number,
+	owners: ArrayLike<number>,
+	from: Record<string, TypedArray>,
+	to?: Record<string, TypedArray>
+): Record<string, TypedArray> {
+	const result: Record<string, TypedArray> =
+		to ??
+		Object.fromEntries(
+			Object.entries(from).map(([key, array]) => [key, new (array.constructor as TypedArrayConstructor)(capacity)])
+		);
+	const entities = [...BooleanArray.fromUint32Array(capacity, owners).truthyIndices()];
+	for (const key in from) {
+		const source = from[key]!;
+		const target = result[key]!;
+		for (const entity of entities) {
+			target[entity] = source[entity] ?? 0;
+		}
+	}
+	return result;
+}
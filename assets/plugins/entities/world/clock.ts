@@ -0,0 +1,102 @@
+/**
+ * @module      Clock
+ * @description A Clock tracks a World's frame time and fixed-step accumulator.
+ * @copyright   2024 the Miski authors. All rights reserved.
+ * @license     MIT
+ */
+
+/** A Clock tracks frame time and decides how many fixed steps to run each frame */
+export class Clock {
+	/** The fixed step duration, or `null` if the World runs without a fixed step */
+	readonly fixedTimestep: number | null;
+
+	/** The maximum number of fixed steps to run in a single frame */
+	readonly maxFixedSteps: number;
+
+	/** Time not yet consumed by fixed steps */
+	#accumulator: number = 0;
+
+	/** Interpolation factor between the last two fixed steps */
+	#alpha: number = 1;
+
+	/** The duration of the last frame */
+	#delta: number = 0;
+
+	/** The total time advanced */
+	#elapsed: number = 0;
+
+	/** The number of frames advanced */
+	#frame: number = 0;
+
+	/** The number of fixed steps run */
+	#tick: number = 0;
+
+	/**
+	 * Create a new Clock
+	 * @param fixedTimestep - The fixed step duration, or `null` to disable fixed stepping
+	 * @param maxFixedSteps - The maximum number of fixed steps to run in a single frame
+	 */
+	constructor(fixedTimestep: number | null, maxFixedSteps: number) {
+		this.fixedTimestep = fixedTimestep;
+		this.maxFixedSteps = maxFixedSteps;
+	}
+
+	/**
+	 * How far the accumulator is between the last fixed step and the next, in the range [0, 1)
+	 *
+	 * Always `1` when the World runs without a fixed step.
+	 */
+	get alpha(): number {
+		return this.#alpha;
+	}
+
+	/** The duration of the last frame */
+	get delta(): number {
+		return this.#delta;
+	}
+
+	/** The total time advanced */
+	get elapsed(): number {
+		return this.#elapsed;
+	}
+
+	/** The number of frames advanced */
+	get frame(): number {
+		return this.#frame;
+	}
+
+	/** The number of fixed steps run */
+	get tick(): number {
+		return this.#tick;
+	}
+
+	/**
+	 * Advance the Clock by one frame
+	 *
+	 * If catching up would take more than `maxFixedSteps`, the backlog is discarded
+	 * so that a slow frame cannot cause ever slower frames.
+	 * @param dt - The duration of the frame
+	 * @returns The number of fixed steps to run this frame
+	 */
+	advance(dt: number): number {
+		this.#delta = dt;
+		this.#elapsed += dt;
+		this.#frame++;
+
+		const fixed = this.fixedTimestep;
+		if (fixed === null) {
+			this.#tick++;
+			return 1;
+		}
+
+		this.#accumulator += dt;
+		const steps = Math.min(Math.floor(this.#accumulator / fixed), this.maxFixedSteps);
+		this.#accumulator -= steps * fixed;
+		if (this.#accumulator >= fixed) {
+			this.#accumulator %= fixed;
+		}
+		this.#alpha = this.#accumulator / fixed;
+		this.#tick += steps;
+		return steps;
+	}
+}
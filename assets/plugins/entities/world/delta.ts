@@ -0,0 +1,134 @@
+/**
+ * @module      Delta
+ * @description Compute the changes between two World snapshots.
+ * @copyright   2024 the Miski authors. All rights reserved.
+ * @license     MIT
+ */
+
+import { BooleanArray } from "../../collections/boolean-array/BooleanArray";
+import { SNAPSHOT_VERSION } from "../constants";
+import { SpecError } from "../errors";
+import type { ComponentDelta, ComponentFieldDelta, ResourceDelta, WorldDelta, WorldSnapshot } from "../types";
+
+/**
+ * Map each owner to its index in the owner-aligned snapshot data
+ * @param owners - The owner bitset
+ * @returns A map of entity to data index
+ */
+function indexOwners(owners: BooleanArray): Map<number, number> {
+	const result = new Map<number, number>();
+	let i = 0;
+	for (const entity of owners.truthyIndices()) {
+		result.set(entity, i++);
+	}
+	return result;
+}
+
+/**
+ * Compute the changes between two sets of snapshotted resources
+ * @param base - The earlier resources (empty if the base snapshot did not include them)
+ * @param target - The later resources
+ * @returns The inserted or changed values (compared by their JSON form) and the removed names
+ */
+function diffResources(base: Record<string, unknown>, target: Record<string, unknown>): ResourceDelta {
+	const values: Record<string, unknown> = {};
+	const removed: string[] = [];
+	for (const name in target) {
+		if (name in base && JSON.stringify(base[name]) === JSON.stringify(target[name])) continue;
+		values[name] = target[name];
+	}
+	for (const name in base) {
+		if (!(name in target)) removed.push(name);
+	}
+	return { values, removed };
+}
+
+/**
+ * Compute the changes between two snapshots of the same World
+ * @param base - The earlier snapshot
+ * @param target - The later snapshot
+ * @param changedOnly - Only compare the values of entities marked as changed in `target` (default `false`)
+ * @returns The delta which moves `base` forward to `target`
+ * @throws {SpecError} - If either snapshot's version is unsupported, or their components do not match
+ * @throws {RangeError} - If the base snapshot's capacity is larger than the target's
+ */
+export function diffSnapshots(base: WorldSnapshot, target: WorldSnapshot, changedOnly: boolean = false): WorldDelta {
+	for (const { version } of [base, target]) {
+		if (version !== SNAPSHOT_VERSION) {
+			throw new SpecError(`Unsupported snapshot version: ${version} (expected ${SNAPSHOT_VERSION})`);
+		}
+	}
+	const { capacity } = target.entities;
+	// a World's capacity only grows, so the base may have been taken before it grew
+	if (base.entities.capacity > capacity) {
+		throw new RangeError(`Snapshot capacity mismatch: ${base.entities.capacity} > ${capacity}`);
+	}
+	if (base.components.length !== target.components.length) {
+		throw new SpecError(`Snapshots have ${base.components.length} and ${target.components.length} components`);
+	}
+
+	const baseActive = BooleanArray.fromUint32Array(capacity, base.entities.pool);
+	const targetActive = BooleanArray.fromUint32Array(capacity, target.entities.pool);
+	const created = [...BooleanArray.difference(targetActive, baseActive).truthyIndices()];
+	const destroyed = [...BooleanArray.difference(baseActive, targetActive).truthyIndices()];
+
+	let generations: ComponentFieldDelta | null = null;
+	const toGenerations = target.entities.generations ?? null;
+	if (toGenerations !== null) {
+		const fromGenerations = base.entities.generations ?? [];
+		generations = { entities: [], values: [] };
+		for (let i = 0; i < toGenerations.length; i++) {
+			if (fromGenerations[i] === toGenerations[i]) continue;
+			generations.entities.push(i);
+			generations.values.push(toGenerations[i]!);
+		}
+	}
+
+	const components: ComponentDelta[] = [];
+	for (let i = 0; i < target.components.length; i++) {
+		const from = base.components[i]!;
+		const to = target.components[i]!;
+		if (from.name !== to.name) {
+			throw new SpecError(`Snapshot component ${i} is "${from.name}" and "${to.name}"`);
+		}
+		const fromOwners = BooleanArray.fromUint32Array(capacity, from.owners);
+		const toOwners = BooleanArray.fromUint32Array(capacity, to.owners);
+		const toChanged = BooleanArray.fromUint32Array(capacity, to.changed);
+		const added = [...BooleanArray.difference(toOwners, fromOwners).truthyIndices()];
+		// destroyed entities lose all their components anyway
+		const removed = [
+			...BooleanArray.and(BooleanArray.difference(fromOwners, toOwners), targetActive).truthyIndices(),
+		];
+
+		let data: Record<string, ComponentFieldDelta> | null = null;
+		let hasData = false;
+		if (to.data) {
+			data = {};
+			for (const key in to.data) {
+				data[key] = { entities: [], values: [] };
+			}
+			const fromIndices = indexOwners(fromOwners);
+			let j = 0;
+			for (const entity of toOwners.truthyIndices()) {
+				const toIndex = j++;
+				const fromIndex = fromIndices.get(entity);
+				if (fromIndex !== undefined && changedOnly && !toChanged.get(entity)) continue;
+				for (const key in to.data) {
+					const value = to.data[key]![toIndex] ?? null;
+					if (fromIndex !== undefined && (from.data?.[key]?.[fromIndex] ?? null) === value) continue;
+					data[key]!.entities.push(entity);
+					data[key]!.values.push(value);
+					hasData = true;
+				}
+			}
+		}
+
+		if (added.length > 0 || removed.length > 0 || hasData) {
+			components.push({ name: to.name, added, removed, data });
+		}
+	}
+
+	const delta: WorldDelta = { version: SNAPSHOT_VERSION, capacity, created, destroyed, generations, components };
+	if (target.resources) delta.resources = diffResources(base.resources ?? {}, target.resources);
+	return delta;
+}
@@ -1,8 +1,47 @@
 import { isValidComponentArray } from "../component/component";
+import { isValidRelationArray } from "../relation/relation";
 import { WorldStateError } from "../errors";
-import type { WorldSpec, WorldState } from "../types";
+import { EntityManager } from "../entity/entity-manager";
+import type { GrowthPolicy, WorldSpec, WorldState } from "../types";
 import { isObject, isPositiveUint32 } from "../utils";
 
+/**
+ * Test if an object is a valid GrowthPolicy
+ * @param growth The object to test
+ * @param capacity The World's initial capacity
+ * @param generational Whether the World's entity handles are generational, which requires a `max` [default = false]
+ * @returns `true` if the object is a valid GrowthPolicy, `false` otherwise
+ */
+export function isValidGrowthPolicy(
+  growth: unknown,
+  capacity: number,
+  generational: boolean = false,
+): growth is GrowthPolicy {
+  if (isObject(growth) === false) return false;
+  const { max, step } = growth;
+  if (step !== "double" && step !== "max" && !isPositiveUint32(step)) return false;
+  // generational handles size their index for `max`, which would otherwise leave almost no bits for the generation
+  if (max === undefined) return step !== "max" && !generational;
+  return isPositiveUint32(max) && max >= capacity && max <= EntityManager.MAX_CAPACITY;
+}
+
+/**
+ * Get the capacity a World grows to
+ * @param growth The World's growth policy
+ * @param capacity The World's current capacity
+ * @param required The capacity needed [default = capacity + 1]
+ * @returns The new capacity, or `capacity` if the policy does not allow `required` entities
+ */
+export function getGrownCapacity(growth: GrowthPolicy, capacity: number, required: number = capacity + 1): number {
+  const { max = EntityManager.MAX_CAPACITY, step } = growth;
+  if (required > max) return capacity;
+  let next = capacity;
+  while (next < required) {
+    next = step === "max" ? max : step === "double" ? next * 2 : next + step;
+  }
+  return Math.min(next, max);
+}
+
 /**
  * Test if an object is a valid WorldSpec
  * @param spec The object to test
@@ -10,7 +49,13 @@ import { isObject, isPositiveUint32 } from "../utils";
  */
 export function isValidWorldSpec(spec: unknown): spec is WorldSpec {
   if (isObject(spec) === false) return false;
-  const { capacity, components } = spec;
+  const { capacity, components, fixedTimestep, generational, growth, maxFixedSteps, relations, storage } = spec;
+  if (fixedTimestep !== undefined && (!Number.isFinite(fixedTimestep) || (fixedTimestep as number) <= 0)) return false;
+  if (maxFixedSteps !== undefined && !isPositiveUint32(maxFixedSteps)) return false;
+  if (generational !== undefined && typeof generational !== "boolean") return false;
+  if (relations !== undefined && !isValidRelationArray(relations)) return false;
+  if (storage !== undefined && storage !== "partitioned" && storage !== "table") return false;
+  if (growth !== undefined && !isValidGrowthPolicy(growth, capacity as number, generational === true)) return false;
   return isPositiveUint32(capacity) && isValidComponentArray(components) && components.length > 0;
 }
 
@@ -0,0 +1,145 @@
+/**
+ * @module      StorageBenchmark
+ * @description Compares the "partitioned" and "table" storage modes.
+ * @copyright   2024 the Miski authors. All rights reserved.
+ * @license     MIT
+ *
+ * @example
+ * ```ts
+ * const results = await benchmarkStorage({ entities: 50_000 });
+ * console.table(results);
+ * ```
+ */
+
+import { Component } from "../assets/plugins/entities/component/component";
+import { Query } from "../assets/plugins/entities/query/query";
+import type { Entity, StorageMode } from "../assets/plugins/entities/types";
+import { World } from "../assets/plugins/entities/world/World";
+
+/** The options for a storage benchmark */
+export type StorageBenchmarkOptions = {
+	/** The number of entities to create [default = 10000] */
+	entities?: number;
+	/** The number of frames to iterate [default = 100] */
+	frames?: number;
+	/** The number of tags spread across the entities, which splits them over `2 ** tags` archetypes [default = 4] */
+	tags?: number;
+};
+
+/** The timings of one storage mode, in milliseconds */
+export type StorageBenchmarkResult = {
+	/** The storage mode */
+	storage: StorageMode;
+	/** Creating the entities and adding their components */
+	create: number;
+	/** One frame of `forEachChunk` iteration */
+	chunk: number;
+	/** One frame of iteration with StorageProxies */
+	proxy: number;
+	/** Adding and removing a component on every entity */
+	transition: number;
+};
+
+type Vec2 = { x: Float32ArrayConstructor; y: Float32ArrayConstructor };
+
+/**
+ * Time a function
+ * @param fn - The function to time
+ * @returns The elapsed time in milliseconds
+ */
+function time(fn: () => void): number {
+	const start = performance.now();
+	fn();
+	return performance.now() - start;
+}
+
+/**
+ * Benchmark one storage mode
+ * @param storage - The storage mode
+ * @param options - The benchmark options
+ * @returns The timings
+ */
+async function benchmarkMode(storage: StorageMode, options: Required<StorageBenchmarkOptions>): Promise<StorageBenchmarkResult> {
+	const { entities: count, frames, tags: tagCount } = options;
+	const position = new Component<Vec2>({ name: "position", schema: { x: Float32Array, y: Float32Array } });
+	const velocity = new Component<Vec2>({ name: "velocity", schema: { x: Float32Array, y: Float32Array } });
+	const marker = new Component<null>({ name: "marker", schema: null });
+	const tags = Array.from({ length: tagCount }, (_, i) => new Component<null>({ name: `tag${i}`, schema: null }));
+	const world = new World({ capacity: count, components: [position, velocity, marker, ...tags], storage });
+	await world.init();
+	const query = new Query({ all: [position, velocity] });
+
+	const entities: Entity[] = [];
+	const create = time(() => {
+		for (let i = 0; i < count; i++) {
+			const entity = world.entities.create()!;
+			// interleave the archetypes, so neighbouring entities are in different archetypes
+			const entityTags = tags.filter((_, bit) => (i >> bit) & 1);
+			world.components.addManyToEntity(entity, [[position, { x: i, y: i }], [velocity, { x: 1, y: 1 }], ...entityTags]);
+			entities.push(entity);
+		}
+	});
+
+	const chunk =
+		time(() => {
+			for (let frame = 0; frame < frames; frame++) {
+				world.queries.forEachChunk(query, (chunkEntities, columns) => {
+					const { x, y } = columns.position!;
+					const { x: dx, y: dy } = columns.velocity!;
+					const length = chunkEntities.length;
+					if (storage === "table") {
+						for (let i = 0; i < length; i++) {
+							x[i] += dx[i]!;
+							y[i] += dy[i]!;
+						}
+					} else {
+						for (let i = 0; i < length; i++) {
+							const entity = chunkEntities[i]!;
+							x[entity] += dx[entity]!;
+							y[entity] += dy[entity]!;
+						}
+					}
+				});
+			}
+		}) / frames;
+
+	const p = world.components.getInstance(position)!.proxy!;
+	const v = world.components.getInstance(velocity)!.proxy!;
+	// proxies are much slower, so fewer frames are run
+	const proxyFrames = Math.max(1, Math.floor(frames / 10));
+	const proxy =
+		time(() => {
+			for (let frame = 0; frame < proxyFrames; frame++) {
+				for (const entity of world.entities.query(query)) {
+					p.entity = entity;
+					v.entity = entity;
+					p.x += v.x;
+					p.y += v.y;
+				}
+			}
+		}) / proxyFrames;
+
+	const transition = time(() => {
+		for (const entity of entities) world.components.addToEntity(marker, entity);
+		for (const entity of entities) world.components.removeFromEntity(marker, entity);
+	});
+
+	await world.destroy();
+	return { storage, create, chunk, proxy, transition };
+}
+
+/**
+ * Compare the "partitioned" and "table" storage modes
+ *
+ * Each mode gets a fresh World with the same entities, spread over several archetypes.
+ * @param options - The benchmark options
+ * @returns The timings of each mode, in milliseconds
+ */
+export async function benchmarkStorage(options: StorageBenchmarkOptions = {}): Promise<StorageBenchmarkResult[]> {
+	const { entities = 10_000, frames = 100, tags = 4 } = options;
+	const results: StorageBenchmarkResult[] = [];
+	for (const storage of ["partitioned", "table"] as const) {
+		results.push(await benchmarkMode(storage, { entities, frames, tags }));
+	}
+	return results;
+}
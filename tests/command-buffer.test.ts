@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { CommandBuffer } from "../assets/plugins/entities/command/command-buffer";
+import { Component } from "../assets/plugins/entities/component/component";
+import { Query } from "../assets/plugins/entities/query/query";
+import { System } from "../assets/plugins/entities/system/System";
+import type { Entity } from "../assets/plugins/entities/types";
+import { World } from "../assets/plugins/entities/world/World";
+
+const position = new Component<{ x: Float32ArrayConstructor }>({ name: "position", schema: { x: Float32Array } });
+const query = new Query({ all: [position] });
+
+test("placeholders resolve across the phases of a step", async () => {
+	const world = new World({ capacity: 16, components: [position] });
+	let early: Entity | undefined;
+	let late: Entity | undefined;
+	let resolvedInUpdate: Entity | undefined;
+	world.systems.create(
+		new System({
+			name: "spawnEarly",
+			query,
+			phase: "preUpdate",
+			callback: () => {
+				early = world.commands.create();
+				world.commands.addToEntity(position, early, { x: 1 });
+			},
+		})
+	);
+	world.systems.create(
+		new System({
+			name: "spawnLate",
+			query,
+			phase: "update",
+			callback: () => {
+				resolvedInUpdate = world.commands.resolve(early!);
+				late = world.commands.create();
+				world.commands.addToEntity(position, late, { x: 2 });
+			},
+		})
+	);
+	await world.init();
+	world.step(0.1);
+
+	assert.notEqual(early, late);
+	assert.ok(CommandBuffer.isPlaceholder(early!));
+	assert.ok(CommandBuffer.isPlaceholder(late!));
+	assert.ok(resolvedInUpdate !== undefined);
+	assert.equal(world.commands.resolve(early!), resolvedInUpdate);
+	const lateEntity = world.commands.resolve(late!);
+	assert.ok(lateEntity !== undefined);
+	assert.notEqual(lateEntity, resolvedInUpdate);
+	assert.deepEqual(world.components.getEntityData(position, resolvedInUpdate), { x: 1 });
+	assert.deepEqual(world.components.getEntityData(position, lateEntity), { x: 2 });
+
+	// the next step starts afresh, so ids are handed out again and resolve to the new entities
+	const previous = late;
+	world.step(0.1);
+	assert.equal(late, previous);
+	const nextLateEntity = world.commands.resolve(late!);
+	assert.ok(nextLateEntity !== undefined);
+	assert.notEqual(nextLateEntity, lateEntity);
+});
+
+test("forget keeps placeholder ids unique while commands are pending", () => {
+	const buffer = new CommandBuffer();
+	const first = buffer.create();
+	buffer.forget();
+	const second = buffer.create();
+	assert.notEqual(first, second);
+	buffer.clear();
+	assert.equal(buffer.create(), first);
+});
@@ -0,0 +1,28 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { Component } from "../assets/plugins/entities/component/component";
+import type { Entity } from "../assets/plugins/entities/types";
+import { World } from "../assets/plugins/entities/world/World";
+
+const position = new Component<{ x: Float32ArrayConstructor }>({ name: "position", schema: { x: Float32Array } });
+
+test("an observer may unsubscribe itself inside onSet", async () => {
+	const world = new World({ capacity: 8, components: [position] });
+	await world.init();
+	const entity = world.entities.create()!;
+	world.components.addToEntity(position, entity, { x: 0 });
+	const calls: string[] = [];
+	const unobserve = world.components.observe(position, {
+		onSet: () => {
+			calls.push("first");
+			unobserve();
+		},
+	});
+	world.components.observe(position, { onSet: (e: Entity) => calls.push(`second ${e}`) });
+
+	const proxy = world.components.getInstance(position)!.proxy!;
+	proxy.entity = entity;
+	proxy.x = 1;
+	proxy.x = 2;
+	assert.deepEqual(calls, ["first", `second ${entity}`, `second ${entity}`]);
+});
@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { Component } from "../assets/plugins/entities/component/component";
+import { Resource } from "../assets/plugins/entities/resource/resource";
+import type { Entity, WorldSnapshot, WorldSpec } from "../assets/plugins/entities/types";
+import { diffSnapshots } from "../assets/plugins/entities/world/delta";
+import { World } from "../assets/plugins/entities/world/World";
+
+const position = new Component<{ x: Float32ArrayConstructor; y: Float32ArrayConstructor }>({
+	name: "position",
+	schema: { x: Float32Array, y: Float32Array },
+});
+const alive = new Component<null>({ name: "alive", schema: null });
+const score = new Resource<{ value: number }>("score");
+const level = new Resource<string>("level");
+const seed = new Resource<number>("seed");
+
+/** The parts of a snapshot a delta is expected to reproduce */
+function comparable({ entities, components, resources }: WorldSnapshot) {
+	return {
+		entities,
+		components: components.map(({ name, owners, data }) => ({ name, owners, data })),
+		resources,
+	};
+}
+
+for (const storage of ["partitioned", "table"] as const) {
+	test(`applying a delta to its base reproduces the target (${storage} storage)`, async () => {
+		const spec: WorldSpec = { capacity: 16, components: [position, alive], generational: true, storage };
+		const world = new World(spec);
+		await world.init();
+		const entities: Entity[] = [];
+		for (let i = 0; i < 4; i++) {
+			const entity = world.entities.create()!;
+			world.components.addManyToEntity(entity, [[position, { x: i, y: -i }], alive]);
+			entities.push(entity);
+		}
+		world.resources.insert(score, { value: 1 });
+		world.resources.insert(level, "intro");
+		world.refresh();
+		const base = world.snapshot(true);
+
+		const created = world.entities.create()!;
+		world.components.addToEntity(position, created, { x: 10, y: 20 });
+		world.entities.destroy(entities[0]!);
+		world.components.setEntityData(position, entities[1]!, { x: 5, y: 6 });
+		world.components.removeFromEntity(alive, entities[2]!);
+		world.resources.insert(score, { value: 2 });
+		world.resources.remove(level);
+		world.resources.insert(seed, 42);
+		world.refresh();
+		const target = world.snapshot(true);
+
+		const delta = diffSnapshots(base, target);
+		assert.deepEqual(delta.created, [4]);
+		assert.deepEqual(delta.destroyed, [0]);
+		assert.deepEqual(delta.resources, { values: { score: { value: 2 }, seed: 42 }, removed: ["level"] });
+
+		const replica = World.fromSnapshot(spec, base);
+		await replica.init();
+		replica.applyDelta(delta);
+		assert.deepEqual(comparable(replica.snapshot(true)), comparable(target));
+		assert.deepEqual(replica.components.getEntityData(position, created), { x: 10, y: 20 });
+		assert.equal(replica.entities.isActive(entities[0]!), false);
+	});
+}
+
+test("a delta carries the generation of a recycled entity index", async () => {
+	const spec: WorldSpec = { capacity: 8, components: [position], generational: true };
+	const world = new World(spec);
+	await world.init();
+	const first = world.entities.create()!;
+	world.components.addToEntity(position, first, { x: 1, y: 1 });
+	const base = world.snapshot();
+
+	world.entities.destroy(first);
+	const recycled = world.entities.create()!;
+	world.components.addToEntity(position, recycled, { x: 2, y: 2 });
+	world.refresh();
+	const target = world.snapshot();
+
+	const delta = world.delta(base, target);
+	assert.notEqual(recycled, first);
+	assert.deepEqual(delta.created, []);
+	assert.deepEqual(delta.destroyed, []);
+	assert.deepEqual(delta.generations?.entities, [0]);
+
+	const replica = World.fromSnapshot(spec, base);
+	await replica.init();
+	replica.applyDelta(delta);
+	assert.deepEqual(comparable(replica.snapshot()), comparable(target));
+	assert.equal(replica.entities.isActive(first), false);
+	assert.deepEqual(replica.components.getEntityData(position, recycled), { x: 2, y: 2 });
+});
+
+test("a delta leaves the resources it does not list untouched", async () => {
+	class Vec {
+		constructor(public x: number) {}
+	}
+	const vec = new Resource<Vec>("vec");
+	const spec: WorldSpec = { capacity: 8, components: [position] };
+	const world = new World(spec);
+	await world.init();
+	world.resources.insert(score, { value: 1 });
+	const base = world.snapshot(true);
+	world.resources.insert(score, { value: 2 });
+	const delta = world.delta(base, world.snapshot(true));
+	assert.deepEqual(delta.resources, { values: { score: { value: 2 } }, removed: [] });
+
+	const replica = World.fromSnapshot(spec, base);
+	await replica.init();
+	const value = new Vec(3);
+	replica.resources.insert(vec, value);
+	replica.applyDelta(delta);
+	assert.equal(replica.resources.get(vec), value);
+	assert.ok(replica.resources.get(vec) instanceof Vec);
+	assert.deepEqual(replica.resources.get(score), { value: 2 });
+
+	// inserted values are copies, so the delta can be applied to other worlds too
+	(delta.resources!.values.score as { value: number }).value = 3;
+	assert.deepEqual(replica.resources.get(score), { value: 2 });
+});
@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { Component } from "../assets/plugins/entities/component/component";
+import { NotRegisteredError, WorldStateError } from "../assets/plugins/entities/errors";
+import { EventChannel } from "../assets/plugins/entities/event/event-channel";
+import { Query } from "../assets/plugins/entities/query/query";
+import { System } from "../assets/plugins/entities/system/System";
+import { World } from "../assets/plugins/entities/world/World";
+
+const position = new Component<{ x: Float32ArrayConstructor }>({ name: "position", schema: { x: Float32Array } });
+const query = new Query({ all: [position] });
+const damage = new EventChannel<number>("damage");
+
+test("each reading system sees every event once, with its own cursor", async () => {
+	const world = new World({ capacity: 8, components: [position] });
+	const seen: Record<string, number[][]> = { health: [], log: [] };
+	let frame = 0;
+	world.systems.create(
+		new System({
+			name: "combat",
+			query,
+			writes: [damage],
+			callback: () => {
+				world.events.send(damage, frame * 10);
+				world.events.send(damage, frame * 10 + 1);
+			},
+		})
+	);
+	for (const name of ["health", "log"]) {
+		world.systems.create(
+			new System({
+				name,
+				query,
+				reads: [damage],
+				// the log only runs every other frame
+				callback: () => {
+					if (name === "log" && frame % 2 === 1) return;
+					seen[name]!.push([...world.events.read(damage)]);
+				},
+			})
+		);
+	}
+	await world.init();
+	for (frame = 0; frame < 3; frame++) world.step(0.1);
+
+	assert.deepEqual(seen.health, [[0, 1], [10, 11], [20, 21]]);
+	assert.deepEqual(seen.log, [[0, 1], [10, 11, 20, 21]]);
+});
+
+test("reading a channel requires a running system which declares it", async () => {
+	const world = new World({ capacity: 8, components: [position] });
+	let error: unknown;
+	world.systems.create(
+		new System({
+			name: "undeclared",
+			query,
+			callback: () => {
+				try {
+					world.events.read(damage);
+				} catch (e) {
+					error = e;
+				}
+			},
+		})
+	);
+	await world.init();
+	world.step(0.1);
+	assert.ok(error instanceof NotRegisteredError);
+	assert.throws(() => world.events.read(damage), WorldStateError);
+});
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { Component } from "../assets/plugins/entities/component/component";
+import { Query } from "../assets/plugins/entities/query/query";
+import { System } from "../assets/plugins/entities/system/System";
+import type { Entity } from "../assets/plugins/entities/types";
+import { World } from "../assets/plugins/entities/world/World";
+
+const position = new Component<{ x: Float32ArrayConstructor }>({ name: "position", schema: { x: Float32Array } });
+const velocity = new Component<{ v: Float32ArrayConstructor }>({ name: "velocity", schema: { v: Float32Array } });
+const query = new Query({ all: [position] });
+
+for (const storage of ["partitioned", "table"] as const) {
+	test(`component data is readable in onExit (${storage} storage)`, async () => {
+		const world = new World({ capacity: 16, components: [position, velocity], storage });
+		await world.init();
+		const exits: [Entity, number | undefined][] = [];
+		world.queries.subscribe(query, {
+			onExit: (entity) => exits.push([entity, world.components.getEntityData(position, entity)?.x]),
+		});
+		const entities: Entity[] = [];
+		for (let i = 0; i < 4; i++) {
+			const entity = world.entities.create()!;
+			world.components.addManyToEntity(entity, [[position, { x: i + 1 }], [velocity, { v: i }]]);
+			entities.push(entity);
+		}
+
+		// immediate changes, each followed by a refresh
+		world.components.removeFromEntity(position, entities[0]!);
+		world.entities.destroy(entities[1]!);
+		// deferred changes, applied during a step and notified at its end
+		world.systems.create(
+			new System({
+				name: "cleanup",
+				query,
+				callback: () => {
+					world.commands.removeFromEntity(position, entities[2]!);
+					world.commands.destroy(entities[3]!);
+				},
+			})
+		);
+		world.step(0.1);
+
+		assert.deepEqual(exits, [
+			[entities[0], 1],
+			[entities[1], 2],
+			[entities[2], 3],
+			[entities[3], 4],
+		]);
+	});
+}
@@ -0,0 +1,28 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { Resource } from "../assets/plugins/entities/resource/resource";
+import { ResourceManager } from "../assets/plugins/entities/resource/resource-manager";
+
+const settings = new Resource<{ volume: number; keys: string[] }>("settings");
+
+test("snapshots do not share objects with the live resources", () => {
+	const resources = new ResourceManager();
+	const value = { volume: 1, keys: ["a"] };
+	resources.insert(settings, value);
+	const snapshot = resources.snapshot();
+
+	value.volume = 2;
+	value.keys.push("b");
+	assert.deepEqual(snapshot, { settings: { volume: 1, keys: ["a"] } });
+});
+
+test("restored resources do not share objects with the snapshot", () => {
+	const resources = new ResourceManager();
+	const snapshot = { settings: { volume: 1, keys: ["a"] } };
+	resources.restore(snapshot);
+
+	resources.get(settings)!.keys.push("b");
+	assert.deepEqual(snapshot, { settings: { volume: 1, keys: ["a"] } });
+	resources.restore(snapshot);
+	assert.deepEqual(resources.get(settings), { volume: 1, keys: ["a"] });
+});
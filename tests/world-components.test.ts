@@ -0,0 +1,24 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { Component } from "../assets/plugins/entities/component/component";
+import { NotRegisteredError } from "../assets/plugins/entities/errors";
+import { World } from "../assets/plugins/entities/world/World";
+
+const position = new Component<{ x: Float32ArrayConstructor }>({ name: "position", schema: { x: Float32Array } });
+const velocity = new Component<{ v: Float32ArrayConstructor }>({ name: "velocity", schema: { v: Float32Array } });
+
+for (const storage of ["partitioned", "table"] as const) {
+	test(`adding an unregistered component throws and leaves the entity untouched (${storage} storage)`, async () => {
+		const world = new World({ capacity: 8, components: [position], storage });
+		await world.init();
+		const entity = world.entities.create()!;
+		world.components.addToEntity(position, entity, { x: 1 });
+		const archetype = world.archetypes.getEntityArchetype(entity);
+
+		assert.throws(() => world.components.addToEntity(velocity, entity, { v: 1 }), NotRegisteredError);
+		assert.throws(() => world.components.addToEntity("velocity", entity), NotRegisteredError);
+		assert.throws(() => world.components.addManyToEntity(entity, [[velocity, { v: 1 }]]), NotRegisteredError);
+		assert.equal(world.archetypes.getEntityArchetype(entity), archetype);
+		assert.deepEqual(world.components.getEntityData(position, entity), { x: 1 });
+	});
+}
@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { Component } from "../assets/plugins/entities/component/component";
+import { SpecError } from "../assets/plugins/entities/errors";
+import { World } from "../assets/plugins/entities/world/World";
+
+const position = new Component<{ x: Float32ArrayConstructor }>({ name: "position", schema: { x: Float32Array } });
+
+test("a generational World which grows requires a max capacity", () => {
+	assert.throws(
+		() => new World({ capacity: 8, components: [position], generational: true, growth: { step: "double" } }),
+		SpecError
+	);
+	assert.doesNotThrow(() => new World({ capacity: 8, components: [position], growth: { step: "double" } }));
+});
+
+test("stale handles are still detected after a generational World grows", async () => {
+	const world = new World({
+		capacity: 8,
+		components: [position],
+		generational: true,
+		growth: { step: "double", max: 64 },
+	});
+	await world.init();
+	const stale = world.entities.create()!;
+	for (let i = 0; i < 8; i++) world.entities.create();
+	assert.equal(world.entities.capacity, 16);
+
+	// recycle the stale handle's index many times, more than a 3-bit generation could count
+	world.entities.destroy(stale);
+	for (let i = 0; i < 20; i++) {
+		const entity = world.entities.create()!;
+		assert.notEqual(entity, stale);
+		world.entities.destroy(entity);
+	}
+	assert.equal(world.entities.isActive(stale), false);
+});